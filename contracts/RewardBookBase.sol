@@ -0,0 +1,726 @@
+// SPDX-License-Identifier: BUSL
+// Teahouse Finance
+
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/access/AccessControl.sol";
+import "@openzeppelin/contracts/security/Pausable.sol";
+import "@openzeppelin/contracts/security/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/metatx/ERC2771Context.sol";
+import "@openzeppelin/contracts/utils/Address.sol";
+import "@openzeppelin/contracts/utils/math/Math.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/introspection/IERC1820Registry.sol";
+
+/// @notice Reward accounting shared by RewardBook and RewardBookUpgradeable
+abstract contract RewardBookBase is AccessControl, Pausable, ReentrancyGuard, EIP712, ERC2771Context {
+
+    using SafeERC20 for IERC20;
+    using ECDSA for bytes32;
+
+    error InvalidToken();
+    error InvalidAddress();
+    error InvalidTotalReward();
+    error InvalidArrayLengths();
+    error InvalidSignature();
+    error SignatureExpired();
+    error InvalidProof();
+    error InvalidPayoutLimit();
+    error PayoutLimitExceeded();
+    error RecipientLimitExceeded();
+    error InvalidRelayerFee();
+    error InvalidVestingSchedule();
+    error InvalidCommittedReward();
+    error AvailableBalanceExceeded();
+    error InvalidRewardCap();
+    error RewardRevoked();
+    error TransferAmountMismatch();
+    error HookTokenNotSupported();
+
+    event RewardSentEth(address caller, address target, uint256 totalReward, uint256 amountSent);
+    event RewardSentERC20(address caller, address token, address target, uint256 totalReward, uint256 amountSent);
+    event MerkleRootPublished(address caller, uint256 epoch, bytes32 merkleRoot);
+    event RelayerFeePaid(address relayer, address token, address target, uint256 fee);
+    event RewardDelivered(address token, address to, uint256 amount, uint256 received);
+    event PayoutLimitSet(address caller, address token, uint256 windowLimit, uint256 windowDuration, uint256 recipientLimit);
+    event RewardCapSet(address caller, address token, address target, uint256 cap);
+    event RewardCapRemoved(address caller, address token, address target);
+    event TransferPolicySet(address caller, address token, TransferPolicy policy);
+    event FundingSourceSet(address caller, address token, address source);
+    event CommittedRewardSet(address caller, address token, uint256 committedReward);
+    event VestingScheduleSet(address caller, address token, uint256 start, uint256 cliff, uint256 duration);
+
+    /// @notice How to handle tokens delivering a different amount than transferred, such as fee-on-transfer or rebasing tokens
+    /// @notice Revert: revert the send or claim, GrossUp: transfer more until the recipient receives the full amount,
+    /// @notice RecordActual: record only the amount received, leaving the rest claimable
+    enum TransferPolicy {
+        Revert,
+        GrossUp,
+        RecordActual
+    }
+
+    struct PayoutLimit {
+        uint256 windowLimit;
+        uint256 windowDuration;
+        uint256 recipientLimit;
+    }
+
+    struct PayoutWindow {
+        uint256 start;
+        uint256 paid;
+    }
+
+    struct RewardCap {
+        bool capped;
+        uint256 cap;
+    }
+
+    struct VestingSchedule {
+        uint256 start;
+        uint256 cliff;
+        uint256 duration;
+    }
+
+    address public immutable NATIVE_ADDRESS = address(0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE);
+    bytes32 public constant SIGNER_ROLE = keccak256("SIGNER_ROLE");
+    bytes32 public constant DISTRIBUTOR_ROLE = keccak256("DISTRIBUTOR_ROLE");
+    bytes32 public constant TREASURY_ROLE = keccak256("TREASURY_ROLE");
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    bytes32 public constant CLAIM_TYPEHASH = keccak256("Claim(address token,address target,uint256 totalReward,uint256 deadline)");
+    bytes32 public constant CLAIM_BUNDLE_TYPEHASH = keccak256("ClaimBundle(address[] tokens,address target,uint256[] totalRewards,uint256 deadline)");
+    bytes32 public constant RELAYED_CLAIM_TYPEHASH = keccak256("RelayedClaim(address token,address target,uint256 totalReward,uint256 relayerFee,address relayer,uint256 deadline)");
+    IERC1820Registry internal constant ERC1820_REGISTRY = IERC1820Registry(0x1820a4B7618BdE71Dce8cdc73aAB6C95905faD24);
+
+    mapping(address => uint256) public rewardsSentEth;
+    mapping(address => mapping(address => uint256)) public rewardsSentERC20;
+
+    uint256 public merkleEpoch;
+    mapping(uint256 => bytes32) public merkleRoots;
+
+    mapping(address => PayoutLimit) public payoutLimits;
+    mapping(address => PayoutWindow) public payoutWindows;
+
+    mapping(address => VestingSchedule) public vestingSchedules;
+
+    mapping(address => address) public fundingSources;
+
+    mapping(address => TransferPolicy) public transferPolicies;
+
+    mapping(address => mapping(address => RewardCap)) public rewardCaps;
+
+    mapping(address => uint256) public committedRewards;
+    mapping(address => uint256) public totalRewardsSent;
+
+    // reserved for state added in later versions, so that the state of RewardBookUpgradeable does not move
+    uint256[50] private __gap;
+
+    /// @param _trustedForwarder ERC-2771 forwarder for meta-transactions, or zero address to disable them
+    constructor(address _trustedForwarder) EIP712("RewardBook", "1") ERC2771Context(_trustedForwarder) {}
+
+    receive() payable external {
+        // do nothing
+    }
+
+    /// @notice Send ethereum reward
+    /// @param _target Address to send ethereum reward to
+    /// @param _totalReward Total amount of ethereum reward for this address
+    /// @return amount Amount of ethereum sent to this address
+    /// @notice This contract maintains the amount of ethereum already sent to this address and send only the additional amount.
+    function sendRewardEth(address payable _target, uint256 _totalReward) external nonReentrant onlyRole(DISTRIBUTOR_ROLE) returns (uint256 amount) {
+        return _internalSendRewardEth(_target, _totalReward);
+    }
+
+    /// @notice Send ethereum rewards to multiple addresses
+    /// @param _targets Addresses to send ethereum rewards to
+    /// @param _totalRewards Total amounts of ethereum rewards for these addresses
+    /// @return amounts Amounts of ethereum sent to these addresses
+    function sendRewardsEth(address payable[] calldata _targets, uint256[] calldata _totalRewards) external nonReentrant onlyRole(DISTRIBUTOR_ROLE) returns (uint256[] memory amounts) {
+        if (_targets.length != _totalRewards.length) revert InvalidArrayLengths();
+        
+        uint256 length = _targets.length;
+        amounts = new uint256[](_targets.length);
+        for (uint256 i = 0; i < length; i++) {
+            amounts[i] = _internalSendRewardEth(_targets[i], _totalRewards[i]);
+        }
+    }
+
+    /// @notice Claim ethereum reward
+    /// @param _target Address to send ethereum reward to
+    /// @param _totalReward Total amount of ethereum reward for this address
+    /// @param _deadline Timestamp after which the signature expires
+    /// @param _signature EIP-712 signature signed by a signer of Claim(NATIVE_ADDRESS, _target, _totalReward, _deadline)
+    /// @return amount Amount of ethereum sent to this address
+    /// @notice This contract maintains the amount of ethereum already sent to this address and send only the additional amount.
+    function claimRewardEth(address payable _target, uint256 _totalReward, uint256 _deadline, bytes calldata _signature) external nonReentrant returns (uint256 amount) {
+        _verifyClaimSignature(NATIVE_ADDRESS, _target, _totalReward, _deadline, _signature);
+
+        return _internalSendRewardEth(_target, _totalReward);
+    }
+
+    /// @notice Internal function for sending ethereum reward
+    /// @param _target Address to send ethereum reward to
+    /// @param _totalReward Total amount of ethereum reward for this address
+    /// @return amount Amount of ethereum sent to this address
+    /// @notice This contract maintains the amount of ethereum already sent to this address and send only the additional amount.
+    function _internalSendRewardEth(address payable _target, uint256 _totalReward) internal returns (uint256 amount) {
+        amount = _recordRewardEth(_target, _totalReward);
+        if (amount > 0) {
+            _transferReward(NATIVE_ADDRESS, _target, amount);
+            emit RewardSentEth(_msgSender(), _target, _totalReward, amount);
+        }        
+    }
+
+    /// @notice Internal function for recording ethereum reward before sending it
+    /// @param _target Address to send ethereum reward to
+    /// @param _totalReward Total amount of ethereum reward for this address
+    /// @return amount Additional amount of ethereum to send to this address
+    function _recordRewardEth(address _target, uint256 _totalReward) internal returns (uint256 amount) {
+        _requireNotPaused();
+        if (_target == address(0)) revert InvalidAddress();
+        if (_totalReward < rewardsSentEth[_target]) revert InvalidTotalReward();
+        _checkRewardCap(NATIVE_ADDRESS, _target, _totalReward);
+
+        amount = _claimableReward(NATIVE_ADDRESS, _totalReward, rewardsSentEth[_target]);
+        if (amount > 0) {
+            _consumePayoutLimit(NATIVE_ADDRESS, amount);
+            rewardsSentEth[_target] += amount;
+            totalRewardsSent[NATIVE_ADDRESS] += amount;
+        }
+    }
+
+    /// @notice Send ERC20 token reward
+    /// @param _token Address of the ERC20 token
+    /// @param _target Address to send token reward to
+    /// @param _totalReward Total amount of token reward for this address
+    /// @return amount Amount of token sent to this address
+    /// @notice This contract maintains the amount of tokens already sent to this address and send only the additional amount.
+    /// @notice If _token is NATIVE_ADDRESS, it calls sendRewardEth.
+    function sendRewardERC20(address _token, address _target, uint256 _totalReward) external nonReentrant onlyRole(DISTRIBUTOR_ROLE) returns (uint256 amount) {
+        return _internalSendRewardERC20(_token, _target, _totalReward);
+    }
+
+    /// @notice Send token rewards to multiple addresses
+    /// @param _tokens Addresses of ERC20 tokens
+    /// @param _targets Addresses to send token rewards to
+    /// @param _totalRewards Total amounts of token rewards for these addresses
+    /// @return amounts Amounts of tokens sent to these addresses
+    function sendRewardsERC20(address[] calldata _tokens, address[] calldata _targets, uint256[] calldata _totalRewards) external nonReentrant onlyRole(DISTRIBUTOR_ROLE) returns (uint256[] memory amounts) {
+        if (_tokens.length != _targets.length) revert InvalidArrayLengths();
+        if (_targets.length != _totalRewards.length) revert InvalidArrayLengths();
+        
+        uint256 length = _targets.length;
+        amounts = new uint256[](_targets.length);
+        for (uint256 i = 0; i < length; i++) {
+            amounts[i] = _internalSendRewardERC20(_tokens[i], _targets[i], _totalRewards[i]);
+        }
+    }
+
+    /// @notice Claim ERC20 token reward
+    /// @param _token Address of the ERC20 token    
+    /// @param _target Address to send ethereum reward to
+    /// @param _totalReward Total amount of ethereum reward for this address
+    /// @param _deadline Timestamp after which the signature expires
+    /// @param _signature EIP-712 signature signed by a signer of Claim(_token, _target, _totalReward, _deadline)
+    /// @return amount Amount of ethereum sent to this address
+    /// @notice This contract maintains the amount of ethereum already sent to this address and send only the additional amount.
+    function claimRewardERC20(address _token, address _target, uint256 _totalReward, uint256 _deadline, bytes calldata _signature) external nonReentrant returns (uint256 amount) {
+        _verifyClaimSignature(_token, _target, _totalReward, _deadline, _signature);
+
+        return _internalSendRewardERC20(_token, _target, _totalReward);
+    }
+
+    /// @notice Claim rewards in multiple tokens with a single signature
+    /// @param _tokens Addresses of ERC20 tokens, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address to send rewards to
+    /// @param _totalRewards Total amounts of rewards for this address
+    /// @param _deadline Timestamp after which the signature expires
+    /// @param _signature EIP-712 signature signed by a signer of ClaimBundle(_tokens, _target, _totalRewards, _deadline)
+    /// @return amounts Amounts of rewards sent to this address
+    /// @notice This contract maintains the amount of rewards already sent to this address and send only the additional amounts.
+    function claimRewards(
+        address[] calldata _tokens,
+        address _target,
+        uint256[] calldata _totalRewards,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external nonReentrant returns (uint256[] memory amounts) {
+        if (_tokens.length != _totalRewards.length) revert InvalidArrayLengths();
+
+        bytes32 structHash = keccak256(abi.encode(
+            CLAIM_BUNDLE_TYPEHASH,
+            keccak256(abi.encodePacked(_tokens)),
+            _target,
+            keccak256(abi.encodePacked(_totalRewards)),
+            _deadline
+        ));
+        _verifySignature(structHash, _deadline, _signature);
+
+        uint256 length = _tokens.length;
+        amounts = new uint256[](length);
+        for (uint256 i = 0; i < length; i++) {
+            amounts[i] = _internalSendRewardERC20(_tokens[i], _target, _totalRewards[i]);
+        }
+    }
+
+    /// @notice Internal function for verifying claim signature
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address to send reward to
+    /// @param _totalReward Total amount of reward for this address
+    /// @param _deadline Timestamp after which the signature expires
+    /// @param _signature EIP-712 signature signed by an address with SIGNER_ROLE
+    /// @notice The signature is bound to the chain and this contract through the EIP-712 domain separator.
+    function _verifyClaimSignature(address _token, address _target, uint256 _totalReward, uint256 _deadline, bytes calldata _signature) internal view {
+        _verifySignature(keccak256(abi.encode(CLAIM_TYPEHASH, _token, _target, _totalReward, _deadline)), _deadline, _signature);
+    }
+
+    /// @notice Internal function for verifying EIP-712 signature of a signer
+    /// @param _structHash EIP-712 hash of the signed struct
+    /// @param _deadline Timestamp after which the signature expires
+    /// @param _signature EIP-712 signature signed by an address with SIGNER_ROLE
+    function _verifySignature(bytes32 _structHash, uint256 _deadline, bytes calldata _signature) internal view {
+        if (block.timestamp > _deadline) revert SignatureExpired();
+        if (!hasRole(SIGNER_ROLE, _hashTypedDataV4(_structHash).recover(_signature))) revert InvalidSignature();
+    }
+
+    /// @notice Claim reward through a relayer, paying the relayer fee out of the additional amount
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address to send reward to
+    /// @param _totalReward Total amount of reward for this address
+    /// @param _relayerFee Amount of the additional reward paid to the relayer
+    /// @param _relayer Address receiving the relayer fee
+    /// @param _deadline Timestamp after which the signature expires
+    /// @param _signature EIP-712 signature signed by a signer of RelayedClaim(_token, _target, _totalReward, _relayerFee, _relayer, _deadline)
+    /// @return amount Amount of reward sent, including the relayer fee
+    /// @notice The fee goes to the signed relayer whoever submits the transaction, so copying it from the mempool does not pay.
+    function claimRewardRelayed(
+        address _token,
+        address _target,
+        uint256 _totalReward,
+        uint256 _relayerFee,
+        address _relayer,
+        uint256 _deadline,
+        bytes calldata _signature
+    ) external nonReentrant returns (uint256 amount) {
+        if (_relayer == address(0)) revert InvalidAddress();
+        bytes32 structHash = keccak256(abi.encode(RELAYED_CLAIM_TYPEHASH, _token, _target, _totalReward, _relayerFee, _relayer, _deadline));
+        _verifySignature(structHash, _deadline, _signature);
+
+        amount = _token == NATIVE_ADDRESS ? _recordRewardEth(_target, _totalReward) : _recordRewardERC20(_token, _target, _totalReward);
+        if (_relayerFee > amount) revert InvalidRelayerFee();
+
+        if (amount > 0) {
+            // the fee is paid out of the reward of the target, so the fee transfer follows the same transfer policy
+            amount = _deliverReward(_token, _target, _target, amount - _relayerFee);
+            uint256 feeSent = _relayerFee > 0 ? _deliverReward(_token, _target, _relayer, _relayerFee) : 0;
+            amount += feeSent;
+
+            if (_token == NATIVE_ADDRESS) {
+                emit RewardSentEth(_msgSender(), _target, _totalReward, amount);
+            }
+            else {
+                emit RewardSentERC20(_msgSender(), _token, _target, _totalReward, amount);
+            }
+
+            emit RelayerFeePaid(_relayer, _token, _target, feeSent);
+        }
+    }
+
+    /// @notice Internal function for sending ERC20 token reward
+    /// @param _token Address of the ERC20 token
+    /// @param _target Address to send token reward to
+    /// @param _totalReward Total amount of token reward for this address
+    /// @return amount Amount of token sent to this address
+    /// @notice This contract maintains the amount of tokens already sent to this address and send only the additional amount.
+    /// @notice If _token is NATIVE_ADDRESS, it calls _internalSendRewardERC20.
+    function _internalSendRewardERC20(address _token, address _target, uint256 _totalReward) internal returns (uint256 amount) {
+        if (_token == NATIVE_ADDRESS) {
+            return _internalSendRewardEth(payable(_target), _totalReward);
+        }
+
+        amount = _recordRewardERC20(_token, _target, _totalReward);
+        if (amount > 0) {
+            amount = _deliverReward(_token, _target, _target, amount);
+            emit RewardSentERC20(_msgSender(), _token, _target, _totalReward, amount);
+        }        
+    }
+
+    /// @notice Internal function for recording ERC20 token reward before sending it
+    /// @param _token Address of the ERC20 token
+    /// @param _target Address to send token reward to
+    /// @param _totalReward Total amount of token reward for this address
+    /// @return amount Additional amount of token to send to this address
+    function _recordRewardERC20(address _token, address _target, uint256 _totalReward) internal returns (uint256 amount) {
+        _requireNotPaused();
+        if (_token == address(0)) revert InvalidToken();
+        if (_target == address(0)) revert InvalidAddress();
+        if (_totalReward < rewardsSentERC20[_token][_target]) revert InvalidTotalReward();
+        _checkRewardCap(_token, _target, _totalReward);
+
+        amount = _claimableReward(_token, _totalReward, rewardsSentERC20[_token][_target]);
+        if (amount > 0) {
+            _consumePayoutLimit(_token, amount);
+            rewardsSentERC20[_token][_target] += amount;
+            totalRewardsSent[_token] += amount;
+        }
+    }
+
+    /// @notice Internal function for transferring ethereum or ERC20 token to a recipient
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _to Address to send to
+    /// @param _amount Amount to send
+    /// @notice Tokens with a funding source are pulled from the source instead of the balance of this contract.
+    function _transferReward(address _token, address _to, uint256 _amount) internal {
+        if (_token == NATIVE_ADDRESS) {
+            Address.sendValue(payable(_to), _amount);
+        }
+        else if (fundingSources[_token] != address(0)) {
+            IERC20(_token).safeTransferFrom(fundingSources[_token], _to, _amount);
+        }
+        else {
+            IERC20(_token).safeTransfer(_to, _amount);
+        }
+    }
+
+    /// @notice Internal function for sending recorded ERC20 token reward according to the transfer policy of the token
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address whose reward is sent
+    /// @param _to Address to send to, the target or the relayer paid out of its reward
+    /// @param _amount Amount recorded as sent to the target
+    /// @return recorded Amount finally recorded as sent, less than _amount only with RecordActual
+    /// @notice Emits RewardDelivered when the amount received by _to, measured by its balance, differs from the recorded amount,
+    /// @notice such as when rounding up a GrossUp top-up delivers a few units more.
+    function _deliverReward(address _token, address _target, address _to, uint256 _amount) internal returns (uint256 recorded) {
+        recorded = _amount;
+        if (_token == NATIVE_ADDRESS) {
+            _transferReward(_token, _to, _amount);
+            return recorded;
+        }
+
+        if (_token.code.length == 0) revert InvalidToken();
+
+        uint256 balanceBefore = IERC20(_token).balanceOf(_to);
+        _transferReward(_token, _to, _amount);
+        uint256 received = _balanceIncrease(_token, _to, balanceBefore);
+        if (received == _amount) return recorded;
+
+        TransferPolicy policy = transferPolicies[_token];
+        if (policy == TransferPolicy.GrossUp && received > 0 && received < _amount) {
+            // assumes the fee is proportional to the amount transferred
+            _transferReward(_token, _to, Math.ceilDiv((_amount - received) * _amount, received));
+            received = _balanceIncrease(_token, _to, balanceBefore);
+            if (received < _amount) revert TransferAmountMismatch();
+        }
+        else if (policy == TransferPolicy.RecordActual && received < _amount) {
+            uint256 shortfall = _amount - received;
+            rewardsSentERC20[_token][_target] -= shortfall;
+            totalRewardsSent[_token] -= shortfall;
+            recorded = received;
+        }
+        else if (policy == TransferPolicy.Revert || received < _amount) {
+            revert TransferAmountMismatch();
+        }
+
+        if (received != recorded) {
+            emit RewardDelivered(_token, _to, recorded, received);
+        }
+    }
+
+    /// @notice Internal function for measuring the amount of token received
+    /// @param _token Address of the ERC20 token
+    /// @param _account Address receiving the token
+    /// @param _balanceBefore Balance of the address before the transfer
+    /// @return increase Increase of the balance, 0 if it decreased
+    function _balanceIncrease(address _token, address _account, uint256 _balanceBefore) internal view returns (uint256 increase) {
+        uint256 balance = IERC20(_token).balanceOf(_account);
+        if (balance > _balanceBefore) {
+            increase = balance - _balanceBefore;
+        }
+    }
+
+    /// @notice Internal function for detecting ERC777 tokens, whose hooks call the recipient during transfers
+    /// @param _token Address of the ERC20 token
+    /// @return hook Whether the token is registered as ERC777 in the ERC1820 registry
+    function _isHookToken(address _token) internal view returns (bool hook) {
+        if (address(ERC1820_REGISTRY).code.length == 0) return false;
+
+        hook = ERC1820_REGISTRY.getInterfaceImplementer(_token, keccak256("ERC777Token")) != address(0);
+    }
+
+    /// @notice Set how transfers of a token delivering a different amount than transferred are handled
+    /// @param _token Address of the ERC20 token
+    /// @param _policy Transfer policy of the token, Revert by default
+    /// @notice GrossUp and RecordActual correct the books from the balance of the recipient, which the hooks of ERC777 tokens
+    /// @notice let the recipient move during the transfer, so they can not be set for tokens registered as ERC777.
+    function setTransferPolicy(address _token, TransferPolicy _policy) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_token == address(0) || _token == NATIVE_ADDRESS) revert InvalidToken();
+        if (_policy != TransferPolicy.Revert && _isHookToken(_token)) revert HookTokenNotSupported();
+
+        transferPolicies[_token] = _policy;
+        emit TransferPolicySet(_msgSender(), _token, _policy);
+    }
+
+    /// @notice Set funding source of a token
+    /// @param _token Address of the ERC20 token
+    /// @param _source Address approving this contract to pull rewards from, or zero address to send from the balance of this contract
+    /// @notice Funds stay in the source until rewards are sent or claimed.
+    function setFundingSource(address _token, address _source) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_token == address(0) || _token == NATIVE_ADDRESS) revert InvalidToken();
+
+        fundingSources[_token] = _source;
+        emit FundingSourceSet(_msgSender(), _token, _source);
+    }
+
+    /// @notice Internal function for enforcing payout limits
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _amount Amount of token about to be sent
+    /// @notice The window restarts when a payout happens after the previous window has ended.
+    function _consumePayoutLimit(address _token, uint256 _amount) internal {
+        PayoutLimit memory limit = payoutLimits[_token];
+        if (limit.recipientLimit > 0 && _amount > limit.recipientLimit) revert RecipientLimitExceeded();
+
+        if (limit.windowLimit > 0) {
+            PayoutWindow storage window = payoutWindows[_token];
+            if (block.timestamp >= window.start + limit.windowDuration) {
+                window.start = block.timestamp;
+                window.paid = 0;
+            }
+
+            window.paid += _amount;
+            if (window.paid > limit.windowLimit) revert PayoutLimitExceeded();
+        }
+    }
+
+    /// @notice Set payout limits of a token
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _windowLimit Maximum total amount sent in a window, 0 for unlimited
+    /// @param _windowDuration Duration of a window in seconds
+    /// @param _recipientLimit Maximum amount sent to a recipient in a single send or claim, 0 for unlimited
+    function setPayoutLimit(address _token, uint256 _windowLimit, uint256 _windowDuration, uint256 _recipientLimit) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_token == address(0)) revert InvalidToken();
+        if (_windowLimit > 0 && _windowDuration == 0) revert InvalidPayoutLimit();
+
+        payoutLimits[_token] = PayoutLimit(_windowLimit, _windowDuration, _recipientLimit);
+        emit PayoutLimitSet(_msgSender(), _token, _windowLimit, _windowDuration, _recipientLimit);
+    }
+
+    /// @notice Internal function for enforcing reward caps
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address to send reward to
+    /// @param _totalReward Total amount of reward for this address
+    function _checkRewardCap(address _token, address _target, uint256 _totalReward) internal view {
+        RewardCap memory cap = rewardCaps[_token][_target];
+        if (cap.capped && _totalReward > cap.cap) revert RewardRevoked();
+    }
+
+    /// @notice Cap total reward of a recipient, revoking sends and claims of larger totals
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address of the recipient
+    /// @param _cap Maximum total reward for this address, not less than the amount already sent
+    /// @notice Signatures and merkle proofs of totals above the cap can no longer be used.
+    function setRewardCap(address _token, address _target, uint256 _cap) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_token == address(0)) revert InvalidToken();
+        if (_target == address(0)) revert InvalidAddress();
+        if (_cap < _rewardSent(_token, _target)) revert InvalidRewardCap();
+
+        _setRewardCap(_token, _target, _cap);
+    }
+
+    /// @notice Revoke all unclaimed rewards of recipients by capping their total rewards at the amounts already sent
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _targets Addresses of the recipients
+    function revokeRewards(address _token, address[] calldata _targets) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_token == address(0)) revert InvalidToken();
+
+        uint256 length = _targets.length;
+        for (uint256 i = 0; i < length; i++) {
+            if (_targets[i] == address(0)) revert InvalidAddress();
+            _setRewardCap(_token, _targets[i], _rewardSent(_token, _targets[i]));
+        }
+    }
+
+    /// @notice Remove the reward cap of a recipient
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address of the recipient
+    function removeRewardCap(address _token, address _target) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        delete rewardCaps[_token][_target];
+        emit RewardCapRemoved(_msgSender(), _token, _target);
+    }
+
+    /// @notice Internal function for setting reward cap
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address of the recipient
+    /// @param _cap Maximum total reward for this address
+    function _setRewardCap(address _token, address _target, uint256 _cap) internal {
+        rewardCaps[_token][_target] = RewardCap(true, _cap);
+        emit RewardCapSet(_msgSender(), _token, _target, _cap);
+    }
+
+    /// @notice Internal function for getting the amount of reward already sent
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address of the recipient
+    /// @return sent Amount of reward already sent to this address
+    function _rewardSent(address _token, address _target) internal view returns (uint256 sent) {
+        sent = _token == NATIVE_ADDRESS ? rewardsSentEth[_target] : rewardsSentERC20[_token][_target];
+    }
+
+    /// @notice Set vesting schedule of a token
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _start Timestamp when vesting starts
+    /// @param _cliff Seconds after _start before anything is vested
+    /// @param _duration Seconds after _start when the total reward is fully vested, 0 to disable vesting
+    /// @notice Total rewards of the token unlock linearly from _start, and only the vested part is sent.
+    function setVestingSchedule(address _token, uint256 _start, uint256 _cliff, uint256 _duration) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (_token == address(0)) revert InvalidToken();
+        if (_cliff > _duration) revert InvalidVestingSchedule();
+
+        vestingSchedules[_token] = VestingSchedule(_start, _cliff, _duration);
+        emit VestingScheduleSet(_msgSender(), _token, _start, _cliff, _duration);
+    }
+
+    /// @notice Get the vested part of a total reward at the current time
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _totalReward Total amount of reward
+    /// @return vested Amount of the total reward vested so far
+    function vestedReward(address _token, uint256 _totalReward) public view returns (uint256 vested) {
+        VestingSchedule memory schedule = vestingSchedules[_token];
+        if (schedule.duration == 0 || block.timestamp >= schedule.start + schedule.duration) return _totalReward;
+        if (block.timestamp < schedule.start + schedule.cliff) return 0;
+
+        return _totalReward * (block.timestamp - schedule.start) / schedule.duration;
+    }
+
+    /// @notice Get vested and already claimed amounts of a total reward
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address receiving the reward
+    /// @param _totalReward Total amount of reward for this address
+    /// @return vested Amount of the total reward vested so far
+    /// @return claimed Amount of reward already sent to this address
+    function vestingStatus(address _token, address _target, uint256 _totalReward) external view returns (uint256 vested, uint256 claimed) {
+        vested = vestedReward(_token, _totalReward);
+        claimed = _rewardSent(_token, _target);
+    }
+
+    /// @notice Internal function for computing the additional amount to send
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _totalReward Total amount of reward for this address
+    /// @param _rewardSent Amount of reward already sent to this address
+    /// @return amount Vested part of _totalReward not sent yet
+    function _claimableReward(address _token, uint256 _totalReward, uint256 _rewardSent) internal view returns (uint256 amount) {
+        uint256 vested = vestedReward(_token, _totalReward);
+        if (vested > _rewardSent) {
+            amount = vested - _rewardSent;
+        }
+    }
+
+    /// @notice Pause sending and claiming rewards
+    function pause() external onlyRole(PAUSER_ROLE) {
+        _pause();
+    }
+
+    /// @notice Resume sending and claiming rewards
+    function unpause() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        _unpause();
+    }
+
+    /// @notice Publish merkle root of cumulative rewards for a new epoch
+    /// @param _merkleRoot Merkle root of leaves keccak256(keccak256(abi.encode(token, target, totalReward)))
+    /// @return epoch The new epoch
+    /// @notice Only the root of the latest epoch can be used for claiming.
+    function publishMerkleRoot(bytes32 _merkleRoot) external onlyRole(SIGNER_ROLE) returns (uint256 epoch) {
+        epoch = merkleEpoch + 1;
+        merkleEpoch = epoch;
+        merkleRoots[epoch] = _merkleRoot;
+        emit MerkleRootPublished(_msgSender(), epoch, _merkleRoot);
+    }
+
+    /// @notice Claim reward with merkle proof
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _target Address to send reward to
+    /// @param _totalReward Total amount of reward for this address
+    /// @param _proof Merkle proof of (_token, _target, _totalReward) against the root of the latest epoch
+    /// @return amount Amount of reward sent to this address
+    /// @notice This contract maintains the amount of reward already sent to this address and send only the additional amount.
+    function claimRewardMerkle(address _token, address _target, uint256 _totalReward, bytes32[] calldata _proof) external nonReentrant returns (uint256 amount) {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(_token, _target, _totalReward))));
+        if (!MerkleProof.verifyCalldata(_proof, merkleRoots[merkleEpoch], leaf)) revert InvalidProof();
+
+        return _internalSendRewardERC20(_token, _target, _totalReward);
+    }
+
+    /// @notice Set committed total rewards of a token
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @param _committedReward Cumulative total rewards of the token promised to all recipients, including those already sent
+    /// @notice Funds needed for the committed rewards not sent yet can not be collected.
+    /// @notice Set by the treasury, as committed rewards decide how much of its funds can be collected.
+    function setCommittedReward(address _token, uint256 _committedReward) external onlyRole(TREASURY_ROLE) {
+        if (_token == address(0)) revert InvalidToken();
+        if (_committedReward < totalRewardsSent[_token]) revert InvalidCommittedReward();
+
+        committedRewards[_token] = _committedReward;
+        emit CommittedRewardSet(_msgSender(), _token, _committedReward);
+    }
+
+    /// @notice Get committed rewards of a token not sent yet
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @return outstanding Amount of committed rewards not sent yet
+    function outstandingRewards(address _token) public view returns (uint256 outstanding) {
+        uint256 sent = totalRewardsSent[_token];
+        if (committedRewards[_token] > sent) {
+            outstanding = committedRewards[_token] - sent;
+        }
+    }
+
+    /// @notice Get the balance of a token not needed for outstanding rewards
+    /// @param _token Address of the ERC20 token, or NATIVE_ADDRESS for ethereum
+    /// @return available Amount of the token that can be collected
+    /// @notice The whole balance is available for tokens with a funding source, as rewards are pulled from the source.
+    function availableBalance(address _token) public view returns (uint256 available) {
+        uint256 balance = _token == NATIVE_ADDRESS ? address(this).balance : IERC20(_token).balanceOf(address(this));
+        if (fundingSources[_token] != address(0)) return balance;
+
+        uint256 outstanding = outstandingRewards(_token);
+        if (balance > outstanding) {
+            available = balance - outstanding;
+        }
+    }
+
+    /// @notice Collect ethereum from the contract
+    /// @param _recipient Address to send ethereum to
+    /// @param _amount Amount of ethereum to collect
+    /// @notice Only the balance not needed for outstanding rewards can be collected.
+    function collectEth(address payable _recipient, uint256 _amount) external onlyRole(TREASURY_ROLE) {
+        if (_recipient == address(0)) revert InvalidAddress();
+        if (_amount > availableBalance(NATIVE_ADDRESS)) revert AvailableBalanceExceeded();
+
+        if (_amount > 0) {
+            Address.sendValue(_recipient, _amount);
+        }
+    }
+
+    /// @notice Collect ERC20 tokens from the contract
+    /// @param _token Address of the ERC20 token
+    /// @param _recipient Address to send tokens to
+    /// @param _amount Amount of tokens to collect
+    /// @notice Only the balance not needed for outstanding rewards can be collected.
+    function collectERC20(address _token, address _recipient, uint256 _amount) external onlyRole(TREASURY_ROLE) {
+        if (_token == address(0)) revert InvalidToken();
+        if (_recipient == address(0)) revert InvalidAddress();
+        if (_amount > availableBalance(_token)) revert AvailableBalanceExceeded();
+
+        if (_amount > 0) {
+            IERC20(_token).safeTransfer(_recipient, _amount);
+        }
+    }
+
+    function _msgSender() internal view override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+}
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: BUSL
+// Teahouse Finance
+
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Proxy.sol";
+import "@openzeppelin/contracts/proxy/utils/Initializable.sol";
+import "@openzeppelin/contracts/proxy/utils/UUPSUpgradeable.sol";
+import "./RewardBookBase.sol";
+
+/// @notice RewardBook behind an ERC1967Proxy, upgraded by the admin.
+/// @notice A proxy replacing an existing instance starts in migration, during which the admin seeds the amounts already sent
+/// @notice by the old instance and sending and claiming are blocked.
+contract RewardBookUpgradeable is RewardBookBase, Initializable, UUPSUpgradeable {
+
+    error MigrationInProgress();
+    error MigrationFinished();
+
+    event RewardSentSeeded(address caller, address token, address target, uint256 rewardSent);
+    event MigrationCompleted(address caller);
+
+    bool public migrating;
+
+    /// @param _trustedForwarder ERC-2771 forwarder for meta-transactions, or zero address to disable them
+    /// @notice The forwarder is part of the implementation, so changing it requires an upgrade.
+    constructor(address _trustedForwarder) RewardBookBase(_trustedForwarder) {
+        _disableInitializers();
+    }
+
+    /// @notice Initialize the proxy
+    /// @param _admin Address managing the roles
+    /// @param _migrating Whether the proxy replaces an existing instance and starts in migration
+    function initialize(address _admin, bool _migrating) external initializer {
+        if (_admin == address(0)) revert InvalidAddress();
+        _grantRole(DEFAULT_ADMIN_ROLE, _admin);
+        migrating = _migrating;
+    }
+
+    /// @notice Seed the amounts already sent to recipients by the old instance
+    /// @param _tokens Addresses of the ERC20 tokens, or NATIVE_ADDRESS for ethereum
+    /// @param _targets Addresses of the recipients
+    /// @param _rewardsSent Total amounts already sent to the recipients
+    /// @notice Seeding the same amounts again does nothing, so interrupted migrations can be repeated.
+    function seedRewardsSent(address[] calldata _tokens, address[] calldata _targets, uint256[] calldata _rewardsSent) external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (!migrating) revert MigrationFinished();
+        if (_tokens.length != _targets.length || _tokens.length != _rewardsSent.length) revert InvalidArrayLengths();
+
+        uint256 length = _tokens.length;
+        for (uint256 i = 0; i < length; i++) {
+            address token = _tokens[i];
+            address target = _targets[i];
+            if (token == address(0)) revert InvalidToken();
+            if (target == address(0)) revert InvalidAddress();
+
+            uint256 sent = _rewardSent(token, target);
+            if (_rewardsSent[i] < sent) revert InvalidTotalReward();
+
+            if (token == NATIVE_ADDRESS) {
+                rewardsSentEth[target] = _rewardsSent[i];
+            }
+            else {
+                rewardsSentERC20[token][target] = _rewardsSent[i];
+            }
+
+            totalRewardsSent[token] += _rewardsSent[i] - sent;
+            emit RewardSentSeeded(_msgSender(), token, target, _rewardsSent[i]);
+        }
+    }
+
+    /// @notice Finish the migration and allow sending and claiming
+    function finishMigration() external onlyRole(DEFAULT_ADMIN_ROLE) {
+        if (!migrating) revert MigrationFinished();
+
+        migrating = false;
+        emit MigrationCompleted(_msgSender());
+    }
+
+    function _requireNotPaused() internal view override {
+        if (migrating) revert MigrationInProgress();
+        super._requireNotPaused();
+    }
+
+    function _authorizeUpgrade(address) internal override onlyRole(DEFAULT_ADMIN_ROLE) {
+        // only the admin can upgrade
+    }
+}
@@ -0,0 +1,17 @@
+// SPDX-License-Identifier: Unlicensed
+// Mock ERC1820 registry for testing purpose, installed at the registry address with hardhat_setCode
+
+pragma solidity ^0.8.9;
+
+contract MockERC1820Registry {
+
+    mapping(address => mapping(bytes32 => address)) private implementers;
+
+    function setInterfaceImplementer(address _account, bytes32 _interfaceHash, address _implementer) external {
+        implementers[_account][_interfaceHash] = _implementer;
+    }
+
+    function getInterfaceImplementer(address _account, bytes32 _interfaceHash) external view returns (address) {
+        return implementers[_account][_interfaceHash];
+    }
+}
@@ -0,0 +1,28 @@
+// SPDX-License-Identifier: Unlicensed
+// Mock fee-on-transfer ERC20 contract for testing purpose
+
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract MockFeeToken is ERC20 {
+
+    uint256 public feeBps;
+
+    constructor(uint256 _initialSupply, uint256 _feeBps) ERC20("Mock Fee", "MockFee") {
+        feeBps = _feeBps;
+        _mint(msg.sender, _initialSupply);
+    }
+
+    function setFee(uint256 _feeBps) external {
+        feeBps = _feeBps;
+    }
+
+    function _transfer(address _from, address _to, uint256 _amount) internal override {
+        uint256 fee = _amount * feeBps / 10000;
+        super._transfer(_from, _to, _amount - fee);
+        if (fee > 0) {
+            _burn(_from, fee);
+        }
+    }
+}
@@ -0,0 +1,9 @@
+// SPDX-License-Identifier: Unlicensed
+// Mock ERC-2771 forwarder contract for testing purpose
+
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/metatx/MinimalForwarder.sol";
+
+contract MockForwarder is MinimalForwarder {
+}
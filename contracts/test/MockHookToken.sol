@@ -0,0 +1,34 @@
+// SPDX-License-Identifier: Unlicensed
+// Mock ERC20 contract for testing purpose, calling back a contract on transfers like the hooks of ERC777 tokens
+
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract MockHookToken is ERC20 {
+
+    address public callbackTarget;
+    bytes public callbackData;
+
+    constructor(uint256 _initialSupply) ERC20("Mock Hook", "MockHook") {
+        _mint(msg.sender, _initialSupply);
+    }
+
+    function setCallback(address _target, bytes calldata _data) external {
+        callbackTarget = _target;
+        callbackData = _data;
+    }
+
+    function _afterTokenTransfer(address, address, uint256) internal override {
+        if (callbackData.length == 0) return;
+
+        bytes memory data = callbackData;
+        delete callbackData;
+        (bool success, bytes memory result) = callbackTarget.call(data);
+        if (!success) {
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+    }
+}
@@ -0,0 +1,32 @@
+// SPDX-License-Identifier: Unlicensed
+// Mock rebasing ERC20 contract for testing purpose, balances are shares scaled by a rebase index
+
+pragma solidity ^0.8.9;
+
+import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+
+contract MockRebasingToken is ERC20 {
+
+    uint256 public index = 1e18;
+
+    constructor(uint256 _initialSupply) ERC20("Mock Rebasing", "MockRebasing") {
+        _mint(msg.sender, _initialSupply);
+    }
+
+    function rebase(uint256 _index) external {
+        index = _index;
+    }
+
+    function balanceOf(address _account) public view override returns (uint256) {
+        return super.balanceOf(_account) * index / 1e18;
+    }
+
+    function totalSupply() public view override returns (uint256) {
+        return super.totalSupply() * index / 1e18;
+    }
+
+    function _transfer(address _from, address _to, uint256 _amount) internal override {
+        // transferred shares round down, so the recipient may receive slightly less than _amount
+        super._transfer(_from, _to, _amount * 1e18 / index);
+    }
+}
@@ -1,11 +1,91 @@
-import { ethers } from "hardhat";
+import path from "path";
+import { ethers, network, run } from "hardhat";
+import {
+    DETERMINISTIC_DEPLOYER,
+    DETERMINISTIC_DEPLOYER_CODE,
+    DeploymentRegistry,
+    deployDeterministic,
+    deploymentRoles,
+    deterministicAddress,
+    grantRoles,
+    transferAdmin,
+} from "../sdk";
 
+// Deploys RewardBook through the deterministic deployment proxy, so the same deployer, forwarder and DEPLOY_SALT
+// give the same address on every chain. Reruns skip the deployment and only finish the remaining steps.
 async function main() {
-    const [owner] = await ethers.getSigners();
-    const rewardBook = await ethers.deployContract("RewardBook", [owner.address]);
-    await rewardBook.waitForDeployment();
+    const [deployer] = await ethers.getSigners();
+    const admin = process.env.ADMIN_ADDRESS ? ethers.getAddress(process.env.ADMIN_ADDRESS) : deployer.address;
+    const forwarder = process.env.TRUSTED_FORWARDER ? ethers.getAddress(process.env.TRUSTED_FORWARDER) : ethers.ZeroAddress;
+    const salt = ethers.id(process.env.DEPLOY_SALT || "RewardBook");
+    const isLocal = network.name === "hardhat" || network.name === "localhost";
 
-    console.log(`RewardBook deployed to ${rewardBook.target}`);
+    if (isLocal && await ethers.provider.getCode(DETERMINISTIC_DEPLOYER) === "0x") {
+        await ethers.provider.send("hardhat_setCode", [DETERMINISTIC_DEPLOYER, DETERMINISTIC_DEPLOYER_CODE]);
+    }
+
+    const constructorArgs = [deployer.address, forwarder];
+    const RewardBook = await ethers.getContractFactory("RewardBook");
+    const { data: initCode } = await RewardBook.getDeployTransaction(deployer.address, forwarder);
+
+    const registry = new DeploymentRegistry(path.join(__dirname, "..", "deployments"));
+    let record = await registry.load(network.name, "RewardBook");
+    const address = deterministicAddress(salt, initCode);
+    if (record !== undefined && record.address !== address) {
+        throw new Error(`${registry.path(network.name)} holds RewardBook at ${record.address} instead of ${address}`);
+    }
+
+    const { receipt } = await deployDeterministic(deployer, salt, initCode);
+    if (receipt !== undefined) {
+        console.log(`RewardBook deployed to ${address} in ${receipt.hash}`);
+        record = {
+            contract: "RewardBook",
+            address,
+            network: network.name,
+            chainId: Number((await ethers.provider.getNetwork()).chainId),
+            blockNumber: receipt.blockNumber,
+            transactionHash: receipt.hash,
+            salt,
+            constructorArgs,
+            admin: deployer.address,
+            verified: false,
+        };
+        await registry.save(record);
+    }
+    else if (record === undefined) {
+        throw new Error(`RewardBook is already deployed to ${address} but missing from ${registry.path(network.name)}`);
+    }
+    else {
+        console.log(`RewardBook already deployed to ${address}, skipping deployment`);
+    }
+
+    const rewardBook = await ethers.getContractAt("RewardBook", address);
+    if (await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), deployer.address)) {
+        for (const { role, account } of await grantRoles(rewardBook, deploymentRoles(process.env, deployer.address))) {
+            console.log(`Granted ${role} to ${account}`);
+        }
+
+        if (admin !== deployer.address) {
+            await transferAdmin(rewardBook, deployer.address, admin);
+            console.log(`Transferred admin role to ${admin}`);
+        }
+
+        record.admin = admin;
+        await registry.save(record);
+    }
+
+    if (!isLocal && !record.verified) {
+        try {
+            await run("verify:verify", { address, constructorArguments: constructorArgs });
+            record.verified = true;
+            await registry.save(record);
+        }
+        catch (error) {
+            console.error(`Verification of ${address} failed, rerun the script to retry`, error);
+        }
+    }
+
+    console.log(`Deployment of ${network.name} recorded in ${registry.path(network.name)}`);
 }
 
 // We recommend this pattern to be able to use async/await everywhere
@@ -0,0 +1,129 @@
+import path from "path";
+import { ethers, network, run } from "hardhat";
+import {
+    DETERMINISTIC_DEPLOYER,
+    DETERMINISTIC_DEPLOYER_CODE,
+    DeploymentRegistry,
+    deployDeterministic,
+    deploymentRoles,
+    grantRoles,
+    transferAdmin,
+} from "../sdk";
+
+// Deploys RewardBookUpgradeable behind an ERC1967 proxy, both through the deterministic deployment proxy, so the same
+// deployer, forwarder and DEPLOY_SALT give the same address on every chain. Reruns with changed code deploy a new
+// implementation and upgrade the proxy recorded in the registry, reruns with the same code only finish the remaining steps.
+// With MIGRATE=true the proxy starts in migration and the deployer keeps the admin role until scripts/migrate.ts
+// finishes the migration.
+async function main() {
+    const [deployer] = await ethers.getSigners();
+    const admin = process.env.ADMIN_ADDRESS ? ethers.getAddress(process.env.ADMIN_ADDRESS) : deployer.address;
+    const forwarder = process.env.TRUSTED_FORWARDER ? ethers.getAddress(process.env.TRUSTED_FORWARDER) : ethers.ZeroAddress;
+    const salt = ethers.id(process.env.DEPLOY_SALT || "RewardBookUpgradeable");
+    const migrating = process.env.MIGRATE === "true";
+    const isLocal = network.name === "hardhat" || network.name === "localhost";
+
+    if (isLocal && await ethers.provider.getCode(DETERMINISTIC_DEPLOYER) === "0x") {
+        await ethers.provider.send("hardhat_setCode", [DETERMINISTIC_DEPLOYER, DETERMINISTIC_DEPLOYER_CODE]);
+    }
+
+    const registry = new DeploymentRegistry(path.join(__dirname, "..", "deployments"));
+    let record = await registry.load(network.name, "RewardBookUpgradeable");
+
+    const constructorArgs = [forwarder];
+    const Implementation = await ethers.getContractFactory("RewardBookUpgradeable");
+    const { data: implementationCode } = await Implementation.getDeployTransaction(forwarder);
+    const codeHash = ethers.keccak256(implementationCode);
+
+    let implementationAddress: string;
+    if (record !== undefined && record.codeHash === codeHash) {
+        implementationAddress = record.implementation!;
+        console.log(`RewardBookUpgradeable implementation at ${implementationAddress} is unchanged, skipping upgrade`);
+    }
+    else {
+        const { address, receipt } = await deployDeterministic(deployer, salt, implementationCode);
+        implementationAddress = address;
+        console.log(`RewardBookUpgradeable implementation ${receipt === undefined ? "already deployed" : "deployed"} to ${address}`);
+    }
+
+    if (record === undefined) {
+        // the deployer is the initial admin so it can grant the other roles
+        const data = Implementation.interface.encodeFunctionData("initialize", [deployer.address, migrating]);
+        const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+        const { data: proxyCode } = await Proxy.getDeployTransaction(implementationAddress, data);
+        const { address, receipt } = await deployDeterministic(deployer, salt, proxyCode);
+        if (receipt === undefined) {
+            throw new Error(`RewardBookUpgradeable proxy is already deployed to ${address} but missing from ${registry.path(network.name)}`);
+        }
+
+        record = {
+            contract: "RewardBookUpgradeable",
+            address,
+            network: network.name,
+            chainId: Number((await ethers.provider.getNetwork()).chainId),
+            blockNumber: receipt.blockNumber,
+            transactionHash: receipt.hash,
+            salt,
+            implementation: implementationAddress,
+            codeHash,
+            constructorArgs,
+            admin: deployer.address,
+            verified: false,
+        };
+        await registry.save(record);
+        console.log(`RewardBookUpgradeable proxy deployed to ${address} in ${receipt.hash}`);
+    }
+    else if (record.codeHash !== codeHash) {
+        const rewardBook = await ethers.getContractAt("RewardBookUpgradeable", record.address);
+        if (!await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), deployer.address)) {
+            console.log(`${deployer.address} is not the admin, call upgradeTo(${implementationAddress}) on ${record.address} from the admin`);
+            return;
+        }
+
+        await (await rewardBook.upgradeTo(implementationAddress)).wait();
+        record.implementation = implementationAddress;
+        record.codeHash = codeHash;
+        record.constructorArgs = constructorArgs;
+        record.verified = false;
+        await registry.save(record);
+        console.log(`Upgraded ${record.address} to ${implementationAddress}`);
+    }
+
+    const rewardBook = await ethers.getContractAt("RewardBookUpgradeable", record.address);
+    if (await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), deployer.address)) {
+        for (const { role, account } of await grantRoles(rewardBook, deploymentRoles(process.env, deployer.address))) {
+            console.log(`Granted ${role} to ${account}`);
+        }
+
+        if (await rewardBook.migrating()) {
+            console.log(`${record.address} is in migration, run scripts/migrate.ts to seed the rewards sent by the old instance`);
+        }
+        else if (admin !== deployer.address) {
+            await transferAdmin(rewardBook, deployer.address, admin);
+            console.log(`Transferred admin role to ${admin}`);
+
+            record.admin = admin;
+            await registry.save(record);
+        }
+    }
+
+    if (!isLocal && !record.verified) {
+        try {
+            await run("verify:verify", { address: implementationAddress, constructorArguments: constructorArgs });
+            record.verified = true;
+            await registry.save(record);
+        }
+        catch (error) {
+            console.error(`Verification of ${implementationAddress} failed, retry with npx hardhat verify --network ${network.name} ${implementationAddress} ${forwarder}`, error);
+        }
+    }
+
+    console.log(`Deployment of ${network.name} recorded in ${registry.path(network.name)}`);
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,59 @@
+import { ethers } from "hardhat";
+import { JsonIndexStore, RewardBookClient, RewardBookMigrator, transferAdmin } from "../sdk";
+
+// Seeds the rewards sent by an old RewardBook into a RewardBookUpgradeable deployed with MIGRATE=true.
+// With MIGRATE_DRAIN=true, the balances of ethereum and MIGRATE_TOKENS are first collected from the old instance into
+// the new one, so that nothing is sent between indexing and finishing the migration.
+// Usage: MIGRATE_FROM=0x... MIGRATE_FROM_BLOCK=<deployment block> REWARDBOOK_ADDRESS=0x... npx hardhat run scripts/migrate.ts --network <network>
+async function main() {
+    const source = process.env.MIGRATE_FROM;
+    const address = process.env.REWARDBOOK_ADDRESS;
+    if (source === undefined || address === undefined) {
+        throw new Error("MIGRATE_FROM and REWARDBOOK_ADDRESS must be set");
+    }
+
+    const [deployer] = await ethers.getSigners();
+    const rewardBook = await ethers.getContractAt("RewardBookUpgradeable", address, deployer);
+    const migrator = new RewardBookMigrator(RewardBookClient.connect(source, deployer), rewardBook, {
+        fromBlock: Number(process.env.MIGRATE_FROM_BLOCK || "0"),
+        toBlock: process.env.MIGRATE_TO_BLOCK ? Number(process.env.MIGRATE_TO_BLOCK) : undefined,
+        batchSize: Number(process.env.MIGRATE_BATCH_SIZE || "200"),
+        store: new JsonIndexStore(process.env.MIGRATE_INDEX || "rewardbook-migration-index.json"),
+    });
+
+    if (process.env.MIGRATE_DRAIN === "true") {
+        const tokens = (process.env.MIGRATE_TOKENS || "").split(",").filter((token) => token.trim() !== "").map((token) => ethers.getAddress(token.trim()));
+        const transactions = await migrator.drain(tokens);
+        console.log(`Collected the balances of ${source} into ${address} in ${transactions.length} transactions`);
+    }
+
+    const report = await migrator.migrate();
+    for (const mismatch of report.mismatches) {
+        console.log(`EventsMismatch: ${mismatch.token} for ${mismatch.target}, events ${mismatch.indexedSent}, on-chain ${mismatch.onChainSent}`);
+    }
+
+    console.log(`Indexed ${source} up to block ${report.lastBlock}`);
+    console.log(`Seeded ${report.entries.length} totals in ${report.transactions.length} transactions, ${report.seeded.length} already seeded`);
+
+    if (process.env.MIGRATE_FINISH !== "true") {
+        console.log("Rerun with MIGRATE_FINISH=true to finish the migration");
+        return;
+    }
+
+    // aborts if the old instance sent rewards after they were indexed
+    const transactionHash = await migrator.finish();
+    console.log(`Finished migration of ${address} in ${transactionHash}`);
+
+    const admin = process.env.ADMIN_ADDRESS ? ethers.getAddress(process.env.ADMIN_ADDRESS) : deployer.address;
+    if (admin !== deployer.address) {
+        await transferAdmin(rewardBook, deployer.address, admin);
+        console.log(`Transferred admin role to ${admin}`);
+    }
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
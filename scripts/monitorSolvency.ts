@@ -0,0 +1,47 @@
+import { ethers } from "hardhat";
+import { RewardBookClient } from "../sdk";
+
+// Usage: REWARDBOOK_ADDRESS=0x... MONITOR_TOKENS=0x...,0x... MONITOR_INTERVAL=300 npx hardhat run scripts/monitorSolvency.ts --network <network>
+// Ethereum is always checked. Without MONITOR_INTERVAL it checks once and exits with code 1 on alerts, for running from cron.
+async function main() {
+    const address = process.env.REWARDBOOK_ADDRESS;
+    if (address === undefined) {
+        throw new Error("REWARDBOOK_ADDRESS must be set");
+    }
+
+    const [signer] = await ethers.getSigners();
+    const client = RewardBookClient.connect(address, signer);
+    const tokens = [await client.getNativeAddress()];
+    for (const token of (process.env.MONITOR_TOKENS || "").split(",")) {
+        if (token.trim() !== "") tokens.push(ethers.getAddress(token.trim()));
+    }
+
+    const interval = Number(process.env.MONITOR_INTERVAL || "0");
+    for (;;) {
+        let alerts = 0;
+        for (const token of tokens) {
+            const solvency = await client.getSolvency(token);
+            if (solvency.solvent) {
+                console.log(`${token}: balance ${solvency.balance}, outstanding ${solvency.outstanding}, available ${solvency.available}`);
+            }
+            else {
+                console.error(`ALERT ${token}: balance ${solvency.balance} is short of outstanding rewards ${solvency.outstanding} by ${solvency.outstanding - solvency.balance}`);
+                alerts++;
+            }
+        }
+
+        if (interval <= 0) {
+            if (alerts > 0) process.exitCode = 1;
+            return;
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+    }
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
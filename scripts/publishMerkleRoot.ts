@@ -0,0 +1,52 @@
+import { promises as fs } from "fs";
+import { ethers } from "hardhat";
+import { RewardBookClient, RewardMerkleTree, ledgerTotals, loadLedger } from "../sdk";
+
+// Usage: REWARDBOOK_ADDRESS=0x... LEDGER_FILE=ledger.json PROOFS_FILE=proofs.json npx hardhat run scripts/publishMerkleRoot.ts --network <network>
+async function main() {
+    const address = process.env.REWARDBOOK_ADDRESS;
+    const ledgerFile = process.env.LEDGER_FILE;
+    const proofsFile = process.env.PROOFS_FILE || "proofs.json";
+    if (address === undefined || ledgerFile === undefined) {
+        throw new Error("REWARDBOOK_ADDRESS and LEDGER_FILE must be set");
+    }
+
+    const ledger = await loadLedger(ledgerFile);
+    const tree = RewardMerkleTree.fromLedger(ledger);
+    const rewardBook = await ethers.getContractAt("RewardBook", address);
+    const tx = await rewardBook.publishMerkleRoot(tree.root);
+    const receipt = await tx.wait();
+
+    // read the epoch of this root from its own event, a root published meanwhile would have bumped merkleEpoch()
+    const published = receipt!.logs
+        .map((log) => rewardBook.interface.parseLog({ topics: [...log.topics], data: log.data }))
+        .find((event) => event?.name === "MerkleRootPublished");
+    if (!published) {
+        throw new Error(`MerkleRootPublished not found in ${tx.hash}`);
+    }
+    const epoch: bigint = published.args.epoch;
+    await fs.writeFile(proofsFile, JSON.stringify({ epoch: epoch.toString(), ...tree.toProofs() }, null, 4));
+
+    console.log(`Merkle root ${tree.root} published as epoch ${epoch} in ${tx.hash}`);
+    console.log(`Proofs of ${tree.leaves.length} rewards written to ${proofsFile}`);
+
+    // the funds for the new round must not be collected before they are claimed, which only the treasury can set
+    const [signer] = await ethers.getSigners();
+    if (!await rewardBook.hasRole(await rewardBook.TREASURY_ROLE(), signer.address)) {
+        console.log(`${signer.address} is not the treasury, run rewardbook:commit --ledger ${ledgerFile} from the treasury`);
+        return;
+    }
+
+    const totals = ledgerTotals(ledger);
+    await RewardBookClient.connect(address, signer).commitRewards(totals);
+    for (const [token, committed] of Object.entries(totals)) {
+        console.log(`Committed rewards of ${token}: ${committed}`);
+    }
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
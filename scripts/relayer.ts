@@ -0,0 +1,25 @@
+import { ethers } from "hardhat";
+import { RewardBookClient, RewardRelayer } from "../sdk";
+
+// Usage: REWARDBOOK_ADDRESS=0x... RELAYER_PORT=8080 RELAYER_MIN_FEE=0 npx hardhat run scripts/relayer.ts --network <network>
+async function main() {
+    const address = process.env.REWARDBOOK_ADDRESS;
+    if (address === undefined) {
+        throw new Error("REWARDBOOK_ADDRESS must be set");
+    }
+
+    const [relayer] = await ethers.getSigners();
+    const service = new RewardRelayer(RewardBookClient.connect(address, relayer), {
+        minRelayerFee: BigInt(process.env.RELAYER_MIN_FEE || "0"),
+    });
+    const port = await service.listen(Number(process.env.RELAYER_PORT || "8080"), process.env.RELAYER_HOST || "127.0.0.1");
+
+    console.log(`Relaying claims to RewardBook ${address} from ${relayer.address} on port ${port}`);
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+main().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+});
@@ -0,0 +1,254 @@
+import { promises as fs } from "fs";
+import { Overrides, Signer, ZeroAddress, getAddress, id } from "ethers";
+import { RewardBookClient, RewardLedger, RewardSent } from "./client";
+
+/** A single row of a distribution */
+export interface RewardEntry {
+    token: string;
+    target: string;
+    totalReward: bigint;
+}
+
+/** A row dropped from a distribution, with the reason it would have reverted */
+export interface RejectedEntry extends RewardEntry {
+    reason: string;
+}
+
+/** Progress of a chunked distribution, saved after every confirmed chunk */
+export interface BatchCheckpoint {
+    ledgerHash: string;
+    chunks: RewardEntry[][];
+    rejected: RejectedEntry[];
+    skipped: RewardEntry[];
+    confirmed: number;
+    transactions: string[];
+}
+
+/** Storage for batch checkpoints, used to resume an interrupted distribution */
+export interface CheckpointStore {
+    load(): Promise<BatchCheckpoint | undefined>;
+    save(checkpoint: BatchCheckpoint): Promise<void>;
+}
+
+export interface BatchOptions {
+    /** Maximum estimated gas of a single chunk */
+    maxGasPerChunk?: bigint;
+    /** Maximum number of rows in a single chunk, before gas estimation */
+    maxChunkSize?: number;
+    store?: CheckpointStore;
+    overrides?: Overrides;
+}
+
+/** Result of a chunked distribution */
+export interface BatchReport {
+    resumed: boolean;
+    transactions: string[];
+    sent: RewardSent[];
+    rejected: RejectedEntry[];
+    skipped: RewardEntry[];
+}
+
+/** Stores batch checkpoints as a JSON file */
+export class FileCheckpointStore implements CheckpointStore {
+    constructor(readonly path: string) {}
+
+    async load(): Promise<BatchCheckpoint | undefined> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.path, "utf8");
+        }
+        catch (error) {
+            if (error instanceof Error && "code" in error && error.code === "ENOENT") return undefined;
+            throw error;
+        }
+
+        return JSON.parse(content, (key, value) => key === "totalReward" ? BigInt(value) : value);
+    }
+
+    async save(checkpoint: BatchCheckpoint): Promise<void> {
+        const content = JSON.stringify(checkpoint, (_, value) => typeof value === "bigint" ? value.toString() : value, 4);
+        await fs.writeFile(this.path, content);
+    }
+}
+
+/**
+ * Sends a distribution through sendRewardsERC20 in chunks sized by gas estimation.
+ * Rows that would revert are reported instead of failing the whole distribution.
+ */
+export class RewardBatchSender {
+    readonly maxGasPerChunk: bigint;
+    readonly maxChunkSize: number;
+
+    constructor(readonly client: RewardBookClient, readonly options: BatchOptions = {}) {
+        this.maxGasPerChunk = options.maxGasPerChunk ?? 5_000_000n;
+        this.maxChunkSize = options.maxChunkSize ?? 200;
+    }
+
+    /**
+     * Checks every ledger row against the on-chain sent totals, reward caps and vesting schedules.
+     * Rows without additional vested reward are skipped, rows that would revert are rejected.
+     */
+    async validate(ledger: RewardLedger): Promise<{ valid: RewardEntry[], rejected: RejectedEntry[], skipped: RewardEntry[] }> {
+        const valid: RewardEntry[] = [];
+        const rejected: RejectedEntry[] = [];
+        const skipped: RewardEntry[] = [];
+        for (const [recipient, rewards] of Object.entries(ledger)) {
+            const target = getAddress(recipient);
+            for (const [tokenAddress, totalReward] of Object.entries(rewards)) {
+                const entry = { token: getAddress(tokenAddress), target, totalReward };
+                if (entry.token === ZeroAddress) {
+                    rejected.push({ ...entry, reason: "InvalidToken" });
+                    continue;
+                }
+
+                if (entry.target === ZeroAddress) {
+                    rejected.push({ ...entry, reason: "InvalidAddress" });
+                    continue;
+                }
+
+                const { claimed: rewardSent, claimable } = await this.client.getVestingStatus(entry.token, entry.target, totalReward);
+                if (totalReward < rewardSent) {
+                    rejected.push({ ...entry, reason: "InvalidTotalReward" });
+                }
+                else if (await this.client.isRevoked(entry.token, entry.target, totalReward)) {
+                    rejected.push({ ...entry, reason: "RewardRevoked" });
+                }
+                else if (claimable === 0n) {
+                    skipped.push(entry);
+                }
+                else {
+                    valid.push(entry);
+                }
+            }
+        }
+
+        return { valid, rejected, skipped };
+    }
+
+    /**
+     * Splits valid rows into chunks whose estimated gas fits in maxGasPerChunk.
+     * A chunk that fails estimation is halved until the reverting rows are isolated and rejected.
+     * Throws if the sender cannot send at all, instead of rejecting every row.
+     */
+    async plan(entries: RewardEntry[]): Promise<{ chunks: RewardEntry[][], rejected: RejectedEntry[] }> {
+        await this.checkSender();
+
+        const chunks: RewardEntry[][] = [];
+        const rejected: RejectedEntry[] = [];
+        for (let i = 0; i < entries.length; i += this.maxChunkSize) {
+            await this.planChunk(entries.slice(i, i + this.maxChunkSize), chunks, rejected);
+        }
+
+        return { chunks, rejected };
+    }
+
+    /**
+     * Sends all outstanding rewards in the ledger.
+     * If the checkpoint store holds an unfinished run of the same ledger, it resumes after the last confirmed chunk.
+     * A finished run is replaced by the next one.
+     */
+    async send(ledger: RewardLedger): Promise<BatchReport> {
+        const ledgerHash = hashLedger(ledger);
+        let checkpoint = await this.options.store?.load();
+        if (checkpoint !== undefined && checkpoint.confirmed === checkpoint.chunks.length) {
+            checkpoint = undefined;
+        }
+
+        const resumed = checkpoint !== undefined;
+        if (checkpoint !== undefined && checkpoint.ledgerHash !== ledgerHash) {
+            throw new Error("Checkpoint belongs to a different ledger");
+        }
+
+        if (checkpoint === undefined) {
+            const { valid, rejected, skipped } = await this.validate(ledger);
+            const plan = await this.plan(valid);
+            checkpoint = {
+                ledgerHash,
+                chunks: plan.chunks,
+                rejected: [...rejected, ...plan.rejected],
+                skipped,
+                confirmed: 0,
+                transactions: [],
+            };
+            await this.options.store?.save(checkpoint);
+        }
+
+        const report: BatchReport = {
+            resumed,
+            transactions: [],
+            sent: [],
+            rejected: checkpoint.rejected,
+            skipped: checkpoint.skipped,
+        };
+        while (checkpoint.confirmed < checkpoint.chunks.length) {
+            const chunk = checkpoint.chunks[checkpoint.confirmed];
+            const tx = await this.client.rewardBook.sendRewardsERC20(
+                chunk.map((entry) => entry.token),
+                chunk.map((entry) => entry.target),
+                chunk.map((entry) => entry.totalReward),
+                this.options.overrides ?? {},
+            );
+            const receipt = await tx.wait();
+            if (receipt === null) throw new Error("Transaction was not mined");
+
+            report.transactions.push(receipt.hash);
+            report.sent.push(...await this.client.parseRewardsSent(receipt));
+
+            checkpoint.confirmed++;
+            checkpoint.transactions.push(receipt.hash);
+            await this.options.store?.save(checkpoint);
+        }
+
+        return report;
+    }
+
+    private async checkSender() {
+        const rewardBook = this.client.rewardBook;
+        if (await rewardBook.paused()) throw new Error("RewardBook is paused");
+
+        const sender = await (rewardBook.runner as Signer).getAddress();
+        if (!await rewardBook.hasRole(await rewardBook.DISTRIBUTOR_ROLE(), sender)) {
+            throw new Error(`${sender} is missing DISTRIBUTOR_ROLE`);
+        }
+    }
+
+    private async planChunk(entries: RewardEntry[], chunks: RewardEntry[][], rejected: RejectedEntry[]) {
+        let gas: bigint | undefined;
+        let reason = "";
+        try {
+            gas = await this.client.rewardBook.sendRewardsERC20.estimateGas(
+                entries.map((entry) => entry.token),
+                entries.map((entry) => entry.target),
+                entries.map((entry) => entry.totalReward),
+            );
+        }
+        catch (error) {
+            reason = this.client.revertReason(error);
+        }
+
+        if (gas !== undefined && gas <= this.maxGasPerChunk) {
+            chunks.push(entries);
+            return;
+        }
+
+        if (entries.length === 1) {
+            if (gas !== undefined) {
+                throw new Error(`Estimated gas ${gas} of a single reward exceeds the chunk limit ${this.maxGasPerChunk}`);
+            }
+
+            rejected.push({ ...entries[0], reason });
+            return;
+        }
+
+        const middle = Math.ceil(entries.length / 2);
+        await this.planChunk(entries.slice(0, middle), chunks, rejected);
+        await this.planChunk(entries.slice(middle), chunks, rejected);
+    }
+}
+
+function hashLedger(ledger: RewardLedger): string {
+    const rows = Object.entries(ledger).flatMap(([recipient, rewards]) =>
+        Object.entries(rewards).map(([token, totalReward]) => `${getAddress(token)}:${getAddress(recipient)}:${totalReward}`));
+
+    return id(rows.sort().join("\n"));
+}
@@ -0,0 +1,312 @@
+import { BlockTag, ContractRunner, ContractTransactionReceipt, Overrides, ZeroAddress, getAddress } from "ethers";
+import { IERC20__factory, RewardBook, RewardBook__factory } from "../typechain-types";
+import { VestingSchedule, VestingStatus } from "./vesting";
+
+/** Cumulative total rewards, keyed by recipient and then by token (use NATIVE_ADDRESS for ethereum) */
+export type RewardLedger = Record<string, Record<string, bigint>>;
+
+/** Difference between a ledger entry and the amount already recorded by the contract */
+export interface RewardDelta {
+    token: string;
+    target: string;
+    totalReward: bigint;
+    rewardSent: bigint;
+    /** Amount still owed, including the part not vested yet */
+    amount: bigint;
+    /** Part of amount vested and claimable now */
+    claimable: bigint;
+}
+
+/** A payout decoded from a RewardSentEth or RewardSentERC20 event */
+export interface RewardSent {
+    transactionHash: string;
+    caller: string;
+    token: string;
+    target: string;
+    totalReward: bigint;
+    amountSent: bigint;
+}
+
+/** Result of a distribution */
+export interface DistributionReport {
+    transactions: string[];
+    sent: RewardSent[];
+    skipped: RewardDelta[];
+    /** Rewards above the reward cap of their recipient, left out as they would revert the whole send call */
+    revoked: RewardDelta[];
+}
+
+/** Balance of a token against the rewards committed but not sent yet */
+export interface SolvencyStatus {
+    token: string;
+    /** Amount available for rewards, in the contract or in the funding source */
+    balance: bigint;
+    committed: bigint;
+    sent: bigint;
+    outstanding: bigint;
+    /** Balance that can be collected without affecting outstanding rewards */
+    available: bigint;
+    /** Whether the balance covers the outstanding rewards */
+    solvent: boolean;
+}
+
+/** Typed client for building and sending RewardBook payouts */
+export class RewardBookClient {
+    private nativeAddress?: string;
+
+    constructor(readonly rewardBook: RewardBook) {}
+
+    static connect(address: string, runner: ContractRunner): RewardBookClient {
+        return new RewardBookClient(RewardBook__factory.connect(address, runner));
+    }
+
+    async getNativeAddress(): Promise<string> {
+        if (this.nativeAddress === undefined) {
+            this.nativeAddress = await this.rewardBook.NATIVE_ADDRESS();
+        }
+
+        return this.nativeAddress;
+    }
+
+    async isNative(token: string): Promise<boolean> {
+        return getAddress(token) === getAddress(await this.getNativeAddress());
+    }
+
+    /** Returns the amount of token already sent to target */
+    async getRewardSent(token: string, target: string, blockTag?: BlockTag): Promise<bigint> {
+        if (await this.isNative(token)) {
+            return this.rewardBook.rewardsSentEth(target, { blockTag });
+        }
+
+        return this.rewardBook.rewardsSentERC20(token, target, { blockTag });
+    }
+
+    async getVestingSchedule(token: string): Promise<VestingSchedule> {
+        const schedule = await this.rewardBook.vestingSchedules(token);
+        return { start: schedule.start, cliff: schedule.cliff, duration: schedule.duration };
+    }
+
+    /** Returns how much of a total reward is vested, already sent and still claimable at the latest block */
+    async getVestingStatus(token: string, target: string, totalReward: bigint): Promise<VestingStatus> {
+        const [vested, claimed] = await this.rewardBook.vestingStatus(token, target, totalReward);
+        return { totalReward, vested, claimed, claimable: vested > claimed ? vested - claimed : 0n };
+    }
+
+    /** Reads the balance of a token held by the contract */
+    async getBalance(token: string): Promise<bigint> {
+        const address = await this.rewardBook.getAddress();
+        if (await this.isNative(token)) {
+            return this.rewardBook.runner!.provider!.getBalance(address);
+        }
+
+        return IERC20__factory.connect(token, this.rewardBook.runner).balanceOf(address);
+    }
+
+    /**
+     * Reads the amount of a token available for rewards.
+     * For tokens with a funding source, it is the balance of the source limited by its allowance to the contract.
+     */
+    async getFundingBalance(token: string): Promise<bigint> {
+        if (await this.isNative(token)) return this.getBalance(token);
+
+        const source = await this.rewardBook.fundingSources(token);
+        if (source === ZeroAddress) return this.getBalance(token);
+
+        const erc20 = IERC20__factory.connect(token, this.rewardBook.runner);
+        const balance = await erc20.balanceOf(source);
+        const allowance = await erc20.allowance(source, await this.rewardBook.getAddress());
+        return balance < allowance ? balance : allowance;
+    }
+
+    /** Compares the funding balance of a token with its outstanding committed rewards */
+    async getSolvency(token: string): Promise<SolvencyStatus> {
+        const balance = await this.getFundingBalance(token);
+        const committed = await this.rewardBook.committedRewards(token);
+        const sent = await this.rewardBook.totalRewardsSent(token);
+        const outstanding = await this.rewardBook.outstandingRewards(token);
+        const available = await this.rewardBook.availableBalance(token);
+
+        return { token: getAddress(token), balance, committed, sent, outstanding, available, solvent: balance >= outstanding };
+    }
+
+    /**
+     * Registers committed rewards per token, usually the ledgerTotals of a new reward round. Requires TREASURY_ROLE.
+     * Tokens whose committed rewards already match are skipped.
+     */
+    async commitRewards(totals: Record<string, bigint>, overrides: Overrides = {}): Promise<string[]> {
+        const transactions: string[] = [];
+        for (const [token, committed] of Object.entries(totals)) {
+            if (await this.rewardBook.committedRewards(token) === committed) continue;
+
+            const tx = await this.rewardBook.setCommittedReward(token, committed, overrides);
+            const receipt = await tx.wait();
+            if (receipt === null) throw new Error("Transaction was not mined");
+
+            transactions.push(receipt.hash);
+        }
+
+        return transactions;
+    }
+
+    /** Returns the maximum total reward of target, or undefined if it is not capped */
+    async getRewardCap(token: string, target: string): Promise<bigint | undefined> {
+        const [capped, cap] = await this.rewardBook.rewardCaps(token, target);
+        return capped ? cap : undefined;
+    }
+
+    /** Whether sending totalReward to target would revert with RewardRevoked */
+    async isRevoked(token: string, target: string, totalReward: bigint): Promise<boolean> {
+        const cap = await this.getRewardCap(token, target);
+        return cap !== undefined && totalReward > cap;
+    }
+
+    /**
+     * Revokes all unclaimed rewards of the targets by capping their totals at the amounts already sent.
+     * Previously signed claims and merkle proofs of larger totals revert afterwards.
+     */
+    async revokeRewards(token: string, targets: string[], overrides: Overrides = {}): Promise<string> {
+        const tx = await this.rewardBook.revokeRewards(token, targets, overrides);
+        const receipt = await tx.wait();
+        if (receipt === null) throw new Error("Transaction was not mined");
+
+        return receipt.hash;
+    }
+
+    /**
+     * Reads the on-chain sent totals and computes the amount still owed for every ledger entry, and how much of it is vested.
+     * Throws if the ledger holds a total lower than what was already sent, as the contract would revert.
+     */
+    async computeDeltas(ledger: RewardLedger): Promise<RewardDelta[]> {
+        const deltas: RewardDelta[] = [];
+        for (const [recipient, rewards] of Object.entries(ledger)) {
+            const target = getAddress(recipient);
+            for (const [tokenAddress, totalReward] of Object.entries(rewards)) {
+                const token = getAddress(tokenAddress);
+                const [vested, rewardSent] = await this.rewardBook.vestingStatus(token, target, totalReward);
+                if (totalReward < rewardSent) {
+                    throw new Error(`Total reward ${totalReward} of ${token} for ${target} is less than already sent ${rewardSent}`);
+                }
+
+                const claimable = vested > rewardSent ? vested - rewardSent : 0n;
+                deltas.push({ token, target, totalReward, rewardSent, amount: totalReward - rewardSent, claimable });
+            }
+        }
+
+        return deltas;
+    }
+
+    /**
+     * Sends all outstanding rewards in the ledger, one transaction for ethereum and one for ERC20 tokens.
+     * Recipients without any additional vested reward are skipped, as sending to them would only cost gas,
+     * and revoked rewards above the cap of their recipient are left out, as they would revert the whole call.
+     */
+    async distribute(ledger: RewardLedger, overrides: Overrides = {}): Promise<DistributionReport> {
+        const deltas = await this.computeDeltas(ledger);
+        const report: DistributionReport = { transactions: [], sent: [], skipped: [], revoked: [] };
+
+        const ethDeltas: RewardDelta[] = [];
+        const erc20Deltas: RewardDelta[] = [];
+        for (const delta of deltas) {
+            if (await this.isRevoked(delta.token, delta.target, delta.totalReward)) {
+                report.revoked.push(delta);
+            }
+            else if (delta.claimable === 0n) {
+                report.skipped.push(delta);
+            }
+            else if (await this.isNative(delta.token)) {
+                ethDeltas.push(delta);
+            }
+            else {
+                erc20Deltas.push(delta);
+            }
+        }
+
+        if (ethDeltas.length > 0) {
+            const tx = await this.rewardBook.sendRewardsEth(
+                ethDeltas.map((delta) => delta.target),
+                ethDeltas.map((delta) => delta.totalReward),
+                overrides,
+            );
+            await this.collectReceipt(report, await tx.wait());
+        }
+
+        if (erc20Deltas.length > 0) {
+            const tx = await this.rewardBook.sendRewardsERC20(
+                erc20Deltas.map((delta) => delta.token),
+                erc20Deltas.map((delta) => delta.target),
+                erc20Deltas.map((delta) => delta.totalReward),
+                overrides,
+            );
+            await this.collectReceipt(report, await tx.wait());
+        }
+
+        return report;
+    }
+
+    /** Decodes RewardSentEth and RewardSentERC20 events emitted by this contract in a receipt */
+    async parseRewardsSent(receipt: ContractTransactionReceipt): Promise<RewardSent[]> {
+        const address = getAddress(await this.rewardBook.getAddress());
+        const nativeAddress = await this.getNativeAddress();
+        const rewards: RewardSent[] = [];
+        for (const log of receipt.logs) {
+            if (getAddress(log.address) !== address) continue;
+
+            const event = this.rewardBook.interface.parseLog({ topics: [...log.topics], data: log.data });
+            if (event === null) continue;
+
+            if (event.name === "RewardSentEth") {
+                rewards.push({
+                    transactionHash: receipt.hash,
+                    caller: event.args.caller,
+                    token: nativeAddress,
+                    target: event.args.target,
+                    totalReward: event.args.totalReward,
+                    amountSent: event.args.amountSent,
+                });
+            }
+            else if (event.name === "RewardSentERC20") {
+                rewards.push({
+                    transactionHash: receipt.hash,
+                    caller: event.args.caller,
+                    token: event.args.token,
+                    target: event.args.target,
+                    totalReward: event.args.totalReward,
+                    amountSent: event.args.amountSent,
+                });
+            }
+        }
+
+        return rewards;
+    }
+
+    /** Returns the custom error name or revert reason of a failed call */
+    revertReason(error: unknown): string {
+        // revert data is nested when the error comes from a JSON-RPC node
+        const data = typeof errorField(error, "data") === "string" ? errorField(error, "data") : errorField(errorField(error, "data"), "data");
+        if (typeof data === "string" && data.length > 2) {
+            const parsed = this.rewardBook.interface.parseError(data);
+            if (parsed !== null) return parsed.name === "Error" ? parsed.args[0] : parsed.name;
+        }
+
+        for (const name of ["reason", "shortMessage", "message"]) {
+            const message = errorField(error, name);
+            if (typeof message === "string") return message;
+        }
+
+        return "unknown";
+    }
+
+    private async collectReceipt(report: DistributionReport, receipt: ContractTransactionReceipt | null) {
+        if (receipt === null) throw new Error("Transaction was not mined");
+
+        report.transactions.push(receipt.hash);
+        report.sent.push(...await this.parseRewardsSent(receipt));
+    }
+}
+
+/** Reads a field of a caught error, which can be anything */
+function errorField(error: unknown, name: string): unknown {
+    if (typeof error !== "object" || error === null || !(name in error)) return undefined;
+
+    return (error as Record<string, unknown>)[name];
+}
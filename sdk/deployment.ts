@@ -0,0 +1,136 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { BytesLike, Signer, TransactionReceipt, ZeroHash, concat, getAddress, getCreate2Address, id, keccak256 } from "ethers";
+import { RewardBook } from "../typechain-types";
+
+/** Deterministic deployment proxy available at the same address on most chains, see https://github.com/Arachnid/deterministic-deployment-proxy */
+export const DETERMINISTIC_DEPLOYER = "0x4e59b44847b379578588920cA78FbF26c0B4956C";
+
+/** Runtime code of the deterministic deployment proxy, for installing it on local networks */
+export const DETERMINISTIC_DEPLOYER_CODE = "0x7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffe03601600081602082378035828234f58015156039578182fd5b8082525050506014600cf3";
+
+/** A deployed contract as stored in the registry */
+export interface DeploymentRecord {
+    contract: string;
+    address: string;
+    network: string;
+    chainId: number;
+    blockNumber: number;
+    transactionHash: string;
+    /** Salt of deterministic deployments */
+    salt?: string;
+    /** Implementation behind the proxy of upgradeable deployments */
+    implementation?: string;
+    /** Hash of the init code of the implementation, to skip upgrades to the same code */
+    codeHash?: string;
+    constructorArgs: string[];
+    admin: string;
+    verified: boolean;
+}
+
+/** Computes the address of a contract deployed through the deterministic deployment proxy */
+export function deterministicAddress(salt: string, initCode: BytesLike): string {
+    return getCreate2Address(DETERMINISTIC_DEPLOYER, salt, keccak256(initCode));
+}
+
+/**
+ * Deploys initCode through the deterministic deployment proxy, giving the same address on every chain for the same salt and init code.
+ * Returns without a receipt if the contract is already deployed.
+ */
+export async function deployDeterministic(signer: Signer, salt: string, initCode: BytesLike): Promise<{ address: string, receipt?: TransactionReceipt }> {
+    const provider = signer.provider;
+    if (provider === null) throw new Error("Signer is not connected to a provider");
+
+    const address = deterministicAddress(salt, initCode);
+    if (await provider.getCode(address) !== "0x") return { address };
+
+    if (await provider.getCode(DETERMINISTIC_DEPLOYER) === "0x") {
+        throw new Error(`Deterministic deployment proxy is not deployed at ${DETERMINISTIC_DEPLOYER}`);
+    }
+
+    const tx = await signer.sendTransaction({ to: DETERMINISTIC_DEPLOYER, data: concat([salt, initCode]) });
+    const receipt = await tx.wait();
+    if (receipt === null) throw new Error("Transaction was not mined");
+    if (await provider.getCode(address) === "0x") throw new Error(`Deployment to ${address} failed in ${receipt.hash}`);
+
+    return { address, receipt };
+}
+
+/** Contract managing the RewardBook roles, either RewardBook or the proxy of RewardBookUpgradeable */
+export type RoleManager = Pick<RewardBook, "hasRole" | "grantRole" | "renounceRole">;
+
+/** Parses a comma-separated list of addresses, defaulting to defaultAddress */
+export function addressList(value: string | undefined, defaultAddress: string): string[] {
+    if (value === undefined || value === "") return [defaultAddress];
+    return value.split(",").map((address) => getAddress(address.trim()));
+}
+
+/** Holders of each role from SIGNER_ADDRESSES, DISTRIBUTOR_ADDRESSES, TREASURY_ADDRESSES and PAUSER_ADDRESSES, the deployer by default */
+export function deploymentRoles(env: Record<string, string | undefined>, deployer: string): Record<string, string[]> {
+    return {
+        SIGNER_ROLE: addressList(env.SIGNER_ADDRESSES, deployer),
+        DISTRIBUTOR_ROLE: addressList(env.DISTRIBUTOR_ADDRESSES, deployer),
+        TREASURY_ROLE: addressList(env.TREASURY_ADDRESSES, deployer),
+        PAUSER_ROLE: addressList(env.PAUSER_ADDRESSES, deployer),
+    };
+}
+
+/**
+ * Grants the roles to the accounts not holding them yet and returns the grants made.
+ * Deployments make the deployer the initial admin, so it can grant the other roles before transferring the admin role.
+ */
+export async function grantRoles(rewardBook: RoleManager, roles: Record<string, string[]>): Promise<{ role: string, account: string }[]> {
+    const granted: { role: string, account: string }[] = [];
+    for (const [name, accounts] of Object.entries(roles)) {
+        const role = id(name);
+        for (const account of accounts) {
+            if (await rewardBook.hasRole(role, account)) continue;
+
+            await (await rewardBook.grantRole(role, account)).wait();
+            granted.push({ role: name, account });
+        }
+    }
+
+    return granted;
+}
+
+/** Grants the admin role to admin and renounces it for the current admin */
+export async function transferAdmin(rewardBook: RoleManager, from: string, admin: string): Promise<void> {
+    // DEFAULT_ADMIN_ROLE of AccessControl
+    await (await rewardBook.grantRole(ZeroHash, admin)).wait();
+    await (await rewardBook.renounceRole(ZeroHash, from)).wait();
+}
+
+/** Stores deployed contracts in one JSON file per network, keyed by contract name */
+export class DeploymentRegistry {
+    constructor(readonly directory: string) {}
+
+    async load(network: string, contract: string): Promise<DeploymentRecord | undefined> {
+        return (await this.loadNetwork(network))[contract];
+    }
+
+    async save(record: DeploymentRecord): Promise<void> {
+        const records = await this.loadNetwork(record.network);
+        records[record.contract] = record;
+
+        await fs.mkdir(this.directory, { recursive: true });
+        await fs.writeFile(this.path(record.network), JSON.stringify(records, null, 4) + "\n");
+    }
+
+    path(network: string): string {
+        return path.join(this.directory, `${network}.json`);
+    }
+
+    private async loadNetwork(network: string): Promise<Record<string, DeploymentRecord>> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.path(network), "utf8");
+        }
+        catch (error) {
+            if (error instanceof Error && "code" in error && error.code === "ENOENT") return {};
+            throw error;
+        }
+
+        return JSON.parse(content);
+    }
+}
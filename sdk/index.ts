@@ -0,0 +1,11 @@
+export * from "./client";
+export * from "./batch";
+export * from "./signature";
+export * from "./ledger";
+export * from "./merkle";
+export * from "./indexer";
+export * from "./relayer";
+export * from "./vesting";
+export * from "./deployment";
+export * from "./safe";
+export * from "./migration";
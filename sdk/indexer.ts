@@ -0,0 +1,249 @@
+import { promises as fs } from "fs";
+import { getAddress } from "ethers";
+import { RewardBookUpgradeable__factory } from "../typechain-types";
+import { RewardBookClient, RewardLedger, RewardSent } from "./client";
+
+/** A payout event with its position in the chain */
+export interface IndexedReward extends RewardSent {
+    blockNumber: number;
+    logIndex: number;
+}
+
+/** A sent total carried over from an old instance by a migrated proxy */
+export interface IndexedSeed {
+    transactionHash: string;
+    blockNumber: number;
+    logIndex: number;
+    caller: string;
+    token: string;
+    target: string;
+    rewardSent: bigint;
+}
+
+/** Indexed events of a RewardBook contract up to lastBlock */
+export interface IndexState {
+    address: string;
+    lastBlock: number;
+    rewards: IndexedReward[];
+    seeds: IndexedSeed[];
+}
+
+/** Storage for indexed events, so that syncing continues where it stopped */
+export interface IndexStore {
+    load(): Promise<IndexState | undefined>;
+    save(state: IndexState): Promise<void>;
+}
+
+export interface IndexerOptions {
+    /** Block to start indexing from, usually the deployment block */
+    fromBlock: number;
+    /** Number of blocks queried at once */
+    pageSize?: number;
+    /** Blocks an event must be buried under before it is indexed, so events of reorged blocks are never stored. 0 by default */
+    confirmations?: number;
+    store?: IndexStore;
+}
+
+/** Totals of a recipient in a token, from events, the contract and the ledger */
+export interface RewardTotal {
+    token: string;
+    target: string;
+    indexedSent: bigint;
+    onChainSent: bigint;
+    ledgerTotal?: bigint;
+}
+
+export type DiscrepancyKind =
+    /** Sum of indexed events differs from the on-chain sent total */
+    | "EventsMismatch"
+    /** More was sent than the ledger total */
+    | "Overpaid"
+    /** Rewards were sent but the recipient is not in the ledger */
+    | "MissingFromLedger";
+
+export interface Discrepancy extends RewardTotal {
+    kind: DiscrepancyKind;
+}
+
+export interface ReconciliationReport {
+    totals: RewardTotal[];
+    discrepancies: Discrepancy[];
+    /** Total amount still owed per token according to the ledger */
+    outstanding: Record<string, bigint>;
+}
+
+/** Stores indexed events as a JSON file */
+export class JsonIndexStore implements IndexStore {
+    constructor(readonly path: string) {}
+
+    async load(): Promise<IndexState | undefined> {
+        let content: string;
+        try {
+            content = await fs.readFile(this.path, "utf8");
+        }
+        catch (error) {
+            if (error instanceof Error && "code" in error && error.code === "ENOENT") return undefined;
+            throw error;
+        }
+
+        return JSON.parse(content, (key, value) => key === "totalReward" || key === "amountSent" || key === "rewardSent" ? BigInt(value) : value);
+    }
+
+    async save(state: IndexState): Promise<void> {
+        const content = JSON.stringify(state, (_, value) => typeof value === "bigint" ? value.toString() : value, 4);
+        await fs.writeFile(this.path, content);
+    }
+}
+
+/**
+ * Indexes RewardSentEth and RewardSentERC20 events and reconciles them against the contract and a ledger.
+ * RewardSentSeeded events of a migrated RewardBookUpgradeable are indexed as the totals sent before them.
+ */
+export class RewardBookIndexer {
+    readonly pageSize: number;
+    readonly confirmations: number;
+    private state?: IndexState;
+
+    constructor(readonly client: RewardBookClient, readonly options: IndexerOptions) {
+        this.pageSize = options.pageSize ?? 10000;
+        this.confirmations = options.confirmations ?? 0;
+    }
+
+    /**
+     * Pages through the events from the last indexed block up to toBlock, saving after every page.
+     * Blocks with fewer confirmations than the options require are left for a later sync.
+     */
+    async sync(toBlock?: number): Promise<IndexState> {
+        const rewardBook = this.client.rewardBook;
+        const address = getAddress(await rewardBook.getAddress());
+        const upgradeable = RewardBookUpgradeable__factory.connect(address, rewardBook.runner);
+        const state = await this.load(address);
+        const nativeAddress = await this.client.getNativeAddress();
+        const confirmedBlock = await rewardBook.runner!.provider!.getBlockNumber() - this.confirmations;
+        const lastBlock = Math.min(toBlock ?? confirmedBlock, confirmedBlock);
+
+        for (let from = state.lastBlock + 1; from <= lastBlock; from += this.pageSize) {
+            const to = Math.min(from + this.pageSize - 1, lastBlock);
+            const ethEvents = await rewardBook.queryFilter(rewardBook.filters.RewardSentEth(), from, to);
+            const erc20Events = await rewardBook.queryFilter(rewardBook.filters.RewardSentERC20(), from, to);
+
+            const rewards: IndexedReward[] = [
+                ...ethEvents.map((event) => ({ event, token: nativeAddress })),
+                ...erc20Events.map((event) => ({ event, token: event.args.token })),
+            ].map(({ event, token }) => ({
+                transactionHash: event.transactionHash,
+                blockNumber: event.blockNumber,
+                logIndex: event.index,
+                caller: event.args.caller,
+                token,
+                target: event.args.target,
+                totalReward: event.args.totalReward,
+                amountSent: event.args.amountSent,
+            }));
+            rewards.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+            const seedEvents = await upgradeable.queryFilter(upgradeable.filters.RewardSentSeeded(), from, to);
+            const seeds: IndexedSeed[] = seedEvents.map((event) => ({
+                transactionHash: event.transactionHash,
+                blockNumber: event.blockNumber,
+                logIndex: event.index,
+                caller: event.args.caller,
+                token: event.args.token,
+                target: event.args.target,
+                rewardSent: event.args.rewardSent,
+            }));
+
+            state.rewards.push(...rewards);
+            state.seeds.push(...seeds);
+            state.lastBlock = to;
+            await this.options.store?.save(state);
+        }
+
+        return state;
+    }
+
+    /** Rebuilds the amount sent to every recipient from the indexed events */
+    async indexedTotals(): Promise<Map<string, RewardTotal>> {
+        const state = await this.load(getAddress(await this.client.rewardBook.getAddress()));
+        const totals = new Map<string, RewardTotal>();
+        const events = [...state.seeds, ...state.rewards].sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+        for (const event of events) {
+            const total = getTotal(totals, event.token, event.target);
+            if ("rewardSent" in event) {
+                // seeding sets the total sent by the old instance instead of adding to it
+                total.indexedSent = event.rewardSent;
+            }
+            else {
+                total.indexedSent += event.amountSent;
+            }
+        }
+
+        return totals;
+    }
+
+    /**
+     * Compares the indexed totals with the on-chain sent totals and, if given, the ledger.
+     * Call sync first to index the latest events. With confirmations, the on-chain totals are read at the last indexed block,
+     * so rewards sent in the unconfirmed blocks are not flagged.
+     */
+    async reconcile(ledger?: RewardLedger): Promise<ReconciliationReport> {
+        const totals = await this.indexedTotals();
+        const blockTag = this.confirmations > 0 ? this.state!.lastBlock : undefined;
+        if (ledger !== undefined) {
+            for (const [recipient, rewards] of Object.entries(ledger)) {
+                for (const [token, totalReward] of Object.entries(rewards)) {
+                    getTotal(totals, token, recipient).ledgerTotal = totalReward;
+                }
+            }
+        }
+
+        const report: ReconciliationReport = { totals: [], discrepancies: [], outstanding: {} };
+        for (const total of totals.values()) {
+            total.onChainSent = await this.client.getRewardSent(total.token, total.target, blockTag);
+            report.totals.push(total);
+
+            if (total.indexedSent !== total.onChainSent) {
+                report.discrepancies.push({ ...total, kind: "EventsMismatch" });
+            }
+
+            if (ledger === undefined) continue;
+
+            if (total.ledgerTotal === undefined) {
+                if (total.onChainSent > 0n) report.discrepancies.push({ ...total, kind: "MissingFromLedger" });
+            }
+            else if (total.onChainSent > total.ledgerTotal) {
+                report.discrepancies.push({ ...total, kind: "Overpaid" });
+            }
+            else {
+                report.outstanding[total.token] = (report.outstanding[total.token] ?? 0n) + total.ledgerTotal - total.onChainSent;
+            }
+        }
+
+        return report;
+    }
+
+    private async load(address: string): Promise<IndexState> {
+        if (this.state === undefined) {
+            this.state = await this.options.store?.load() ?? { address, lastBlock: this.options.fromBlock - 1, rewards: [], seeds: [] };
+            // stores saved before seeds were indexed
+            this.state.seeds ??= [];
+        }
+
+        if (getAddress(this.state.address) !== address) {
+            throw new Error(`Index store belongs to ${this.state.address} instead of ${address}`);
+        }
+
+        return this.state;
+    }
+}
+
+function getTotal(totals: Map<string, RewardTotal>, token: string, target: string): RewardTotal {
+    const key = `${getAddress(token)}:${getAddress(target)}`;
+    let total = totals.get(key);
+    if (total === undefined) {
+        total = { token: getAddress(token), target: getAddress(target), indexedSent: 0n, onChainSent: 0n };
+        totals.set(key, total);
+    }
+
+    return total;
+}
@@ -0,0 +1,62 @@
+import { promises as fs } from "fs";
+import { getAddress } from "ethers";
+import { RewardLedger } from "./client";
+
+/**
+ * Loads a ledger of cumulative total rewards from a JSON or CSV file.
+ * A JSON file maps recipients to tokens to totals, with totals as decimal strings.
+ * A CSV file has one `recipient,token,totalReward` row per reward, with an optional header.
+ */
+export async function loadLedger(path: string): Promise<RewardLedger> {
+    const content = await fs.readFile(path, "utf8");
+    if (path.toLowerCase().endsWith(".csv")) {
+        return parseLedgerCsv(content);
+    }
+
+    const rewards: Record<string, Record<string, string | number>> = JSON.parse(content);
+    const ledger: RewardLedger = {};
+    for (const [recipient, tokens] of Object.entries(rewards)) {
+        for (const [token, totalReward] of Object.entries(tokens)) {
+            addReward(ledger, recipient, token, BigInt(totalReward));
+        }
+    }
+
+    return ledger;
+}
+
+/** Parses `recipient,token,totalReward` rows into a ledger */
+export function parseLedgerCsv(content: string): RewardLedger {
+    const ledger: RewardLedger = {};
+    const rows = content.split(/\r?\n/).map((row) => row.trim()).filter((row) => row !== "");
+    rows.forEach((row, index) => {
+        const columns = row.split(",").map((column) => column.trim());
+        if (columns.length !== 3) throw new Error(`Invalid ledger row ${index + 1}: ${row}`);
+        if (index === 0 && !columns[0].startsWith("0x")) return;
+
+        addReward(ledger, columns[0], columns[1], BigInt(columns[2]));
+    });
+
+    return ledger;
+}
+
+/** Sums the total rewards of every token in a ledger, which is the amount committed to all recipients */
+export function ledgerTotals(ledger: RewardLedger): Record<string, bigint> {
+    const totals: Record<string, bigint> = {};
+    for (const rewards of Object.values(ledger)) {
+        for (const [token, totalReward] of Object.entries(rewards)) {
+            totals[getAddress(token)] = (totals[getAddress(token)] ?? 0n) + totalReward;
+        }
+    }
+
+    return totals;
+}
+
+function addReward(ledger: RewardLedger, recipient: string, token: string, totalReward: bigint) {
+    const target = getAddress(recipient);
+    ledger[target] ??= {};
+    if (ledger[target][getAddress(token)] !== undefined) {
+        throw new Error(`Duplicated ledger entry of ${token} for ${target}`);
+    }
+
+    ledger[target][getAddress(token)] = totalReward;
+}
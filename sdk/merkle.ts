@@ -0,0 +1,106 @@
+import { AbiCoder, concat, getAddress, keccak256 } from "ethers";
+import { RewardLedger } from "./client";
+
+/** Cumulative total reward of a recipient in a token (use NATIVE_ADDRESS for ethereum) */
+export interface MerkleLeaf {
+    token: string;
+    target: string;
+    totalReward: bigint;
+}
+
+/** Proofs of a merkle tree, keyed by recipient and then by token, for serving to the frontend */
+export interface MerkleProofs {
+    merkleRoot: string;
+    claims: Record<string, Record<string, { totalReward: string, proof: string[] }>>;
+}
+
+/** Hashes a leaf the same way as RewardBook.claimRewardMerkle */
+export function hashLeaf(leaf: MerkleLeaf): string {
+    const encoded = AbiCoder.defaultAbiCoder().encode(
+        ["address", "address", "uint256"],
+        [leaf.token, leaf.target, leaf.totalReward],
+    );
+
+    return keccak256(keccak256(encoded));
+}
+
+function hashPair(a: string, b: string): string {
+    return a < b ? keccak256(concat([a, b])) : keccak256(concat([b, a]));
+}
+
+/** Merkle tree of cumulative rewards, compatible with OpenZeppelin MerkleProof */
+export class RewardMerkleTree {
+    readonly leaves: MerkleLeaf[];
+    private readonly layers: string[][];
+
+    constructor(leaves: MerkleLeaf[]) {
+        if (leaves.length === 0) throw new Error("Merkle tree must have at least one leaf");
+
+        this.leaves = leaves.map((leaf) => ({
+            token: getAddress(leaf.token),
+            target: getAddress(leaf.target),
+            totalReward: leaf.totalReward,
+        }));
+
+        const hashes = this.leaves.map(hashLeaf).sort();
+        for (let i = 1; i < hashes.length; i++) {
+            if (hashes[i] === hashes[i - 1]) throw new Error("Merkle tree has duplicated leaves");
+        }
+
+        this.layers = [hashes];
+        while (this.layers[this.layers.length - 1].length > 1) {
+            const layer = this.layers[this.layers.length - 1];
+            const next: string[] = [];
+            for (let i = 0; i < layer.length; i += 2) {
+                next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+            }
+
+            this.layers.push(next);
+        }
+    }
+
+    static fromLedger(ledger: RewardLedger): RewardMerkleTree {
+        const leaves = Object.entries(ledger).flatMap(([target, rewards]) =>
+            Object.entries(rewards).map(([token, totalReward]) => ({ token, target, totalReward })));
+
+        return new RewardMerkleTree(leaves);
+    }
+
+    get root(): string {
+        return this.layers[this.layers.length - 1][0];
+    }
+
+    getProof(leaf: MerkleLeaf): string[] {
+        let index = this.layers[0].indexOf(hashLeaf(leaf));
+        if (index < 0) throw new Error("Leaf is not in the merkle tree");
+
+        const proof: string[] = [];
+        for (const layer of this.layers.slice(0, -1)) {
+            const sibling = index % 2 === 0 ? index + 1 : index - 1;
+            if (sibling < layer.length) {
+                proof.push(layer[sibling]);
+            }
+
+            index = Math.floor(index / 2);
+        }
+
+        return proof;
+    }
+
+    static verify(root: string, leaf: MerkleLeaf, proof: string[]): boolean {
+        return proof.reduce(hashPair, hashLeaf(leaf)) === root;
+    }
+
+    toProofs(): MerkleProofs {
+        const proofs: MerkleProofs = { merkleRoot: this.root, claims: {} };
+        for (const leaf of this.leaves) {
+            proofs.claims[leaf.target] ??= {};
+            proofs.claims[leaf.target][leaf.token] = {
+                totalReward: leaf.totalReward.toString(),
+                proof: this.getProof(leaf),
+            };
+        }
+
+        return proofs;
+    }
+}
@@ -0,0 +1,166 @@
+import { Overrides, getAddress } from "ethers";
+import { RewardBookUpgradeable } from "../typechain-types";
+import { RewardBookClient } from "./client";
+import { IndexStore, RewardBookIndexer, RewardTotal } from "./indexer";
+
+/** Amount already sent to a recipient by the old instance */
+export interface SeedEntry {
+    token: string;
+    target: string;
+    rewardSent: bigint;
+}
+
+export interface MigrationOptions {
+    /** Block to index the old instance from, usually its deployment block */
+    fromBlock: number;
+    /** Block to index the old instance up to, the latest block by default */
+    toBlock?: number;
+    /** Number of blocks queried at once */
+    pageSize?: number;
+    /** Blocks an event of the old instance must be buried under before it is indexed */
+    confirmations?: number;
+    /** Maximum number of recipients seeded in a single call */
+    batchSize?: number;
+    store?: IndexStore;
+}
+
+/** Sent totals of the old instance compared with the new one */
+export interface MigrationPlan {
+    lastBlock: number;
+    /** Totals still to be seeded */
+    entries: SeedEntry[];
+    /** Totals the new instance already holds */
+    seeded: SeedEntry[];
+    /** Totals whose events do not add up to the on-chain amount, seeded with the on-chain amount */
+    mismatches: RewardTotal[];
+}
+
+export interface MigrationReport extends MigrationPlan {
+    transactions: string[];
+}
+
+/**
+ * Copies the sent totals of an old RewardBook into a RewardBookUpgradeable in migration.
+ * Recipients are found from the RewardSent events of the old instance and seeded with its on-chain totals,
+ * so recipients are not paid twice for rewards sent by the old instance.
+ */
+export class RewardBookMigrator {
+    readonly batchSize: number;
+    private readonly indexer: RewardBookIndexer;
+
+    constructor(readonly source: RewardBookClient, readonly target: RewardBookUpgradeable, readonly options: MigrationOptions) {
+        this.batchSize = options.batchSize ?? 200;
+        this.indexer = new RewardBookIndexer(source, { fromBlock: options.fromBlock, pageSize: options.pageSize, confirmations: options.confirmations, store: options.store });
+    }
+
+    /**
+     * Collects the whole balance of ethereum and the tokens from the old instance into the new one,
+     * so that the old instance can not send rewards anymore. The source client must be allowed to collect.
+     */
+    async drain(tokens: string[], overrides: Overrides = {}): Promise<string[]> {
+        const rewardBook = this.source.rewardBook;
+        const recipient = await this.target.getAddress();
+        const transactions: string[] = [];
+        for (const token of [await this.source.getNativeAddress(), ...tokens]) {
+            const balance = await this.source.getBalance(token);
+            if (balance === 0n) continue;
+
+            const tx = await this.source.isNative(token)
+                ? await rewardBook.collectEth(recipient, balance, overrides)
+                : await rewardBook.collectERC20(token, recipient, balance, overrides);
+            const receipt = await tx.wait();
+            if (receipt === null) throw new Error("Transaction was not mined");
+
+            transactions.push(receipt.hash);
+        }
+
+        return transactions;
+    }
+
+    /** Indexes the old instance and lists the totals the new instance is missing */
+    async plan(): Promise<MigrationPlan> {
+        const state = await this.indexer.sync(this.options.toBlock);
+        const report = await this.indexer.reconcile();
+
+        const plan: MigrationPlan = {
+            lastBlock: state.lastBlock,
+            entries: [],
+            seeded: [],
+            mismatches: report.discrepancies.filter((discrepancy) => discrepancy.kind === "EventsMismatch"),
+        };
+        for (const total of report.totals) {
+            if (total.onChainSent === 0n) continue;
+
+            const entry = { token: total.token, target: total.target, rewardSent: total.onChainSent };
+            const seeded = await this.getSeeded(entry.token, entry.target);
+            if (seeded > entry.rewardSent) {
+                throw new Error(`New instance already sent ${seeded} of ${entry.token} to ${entry.target}, more than ${entry.rewardSent}`);
+            }
+
+            if (seeded === entry.rewardSent) {
+                plan.seeded.push(entry);
+            }
+            else {
+                plan.entries.push(entry);
+            }
+        }
+
+        return plan;
+    }
+
+    /**
+     * Seeds the missing totals in batches of batchSize recipients.
+     * Totals already seeded are skipped, so an interrupted migration can be run again.
+     */
+    async migrate(overrides: Overrides = {}): Promise<MigrationReport> {
+        if (!await this.target.migrating()) throw new Error("New instance is not in migration");
+
+        const plan = await this.plan();
+        const report: MigrationReport = { ...plan, transactions: [] };
+        for (let i = 0; i < plan.entries.length; i += this.batchSize) {
+            const chunk = plan.entries.slice(i, i + this.batchSize);
+            const tx = await this.target.seedRewardsSent(
+                chunk.map((entry) => entry.token),
+                chunk.map((entry) => entry.target),
+                chunk.map((entry) => entry.rewardSent),
+                overrides,
+            );
+            const receipt = await tx.wait();
+            if (receipt === null) throw new Error("Transaction was not mined");
+
+            report.transactions.push(receipt.hash);
+        }
+
+        return report;
+    }
+
+    /**
+     * Finishes the migration once every total is seeded.
+     * The old instance is indexed up to the latest block first, and the migration is not finished if it sent rewards
+     * after the seeded totals were read, as the new instance would pay them again.
+     */
+    async finish(overrides: Overrides = {}): Promise<string> {
+        const plan = await this.plan();
+        if (plan.entries.length > 0) throw new Error(`${plan.entries.length} totals are not seeded yet`);
+
+        const state = await this.indexer.sync();
+        const late = state.rewards.filter((reward) => reward.blockNumber > plan.lastBlock);
+        if (late.length > 0) {
+            throw new Error(`Old instance sent ${late.length} rewards after block ${plan.lastBlock}, drain it and migrate again`);
+        }
+
+        const tx = await this.target.finishMigration(overrides);
+        const receipt = await tx.wait();
+        if (receipt === null) throw new Error("Transaction was not mined");
+
+        return receipt.hash;
+    }
+
+    private async getSeeded(token: string, target: string): Promise<bigint> {
+        if (getAddress(token) === getAddress(await this.source.getNativeAddress())) {
+            return this.target.rewardsSentEth(target);
+        }
+
+        return this.target.rewardsSentERC20(token, target);
+    }
+}
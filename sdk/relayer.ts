@@ -0,0 +1,174 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { Signer, getAddress } from "ethers";
+import { RewardBookClient } from "./client";
+import { RelayedClaim } from "./signature";
+
+/** Signed relayed claim as received over HTTP, with amounts as decimal strings */
+export interface RelayRequest {
+    token: string;
+    target: string;
+    totalReward: string;
+    relayerFee: string;
+    relayer: string;
+    deadline: string;
+    signature: string;
+}
+
+/** Result of a submitted relayed claim */
+export interface RelayResult {
+    transactionHash: string;
+    amount: bigint;
+    relayerFee: bigint;
+}
+
+export interface RelayerOptions {
+    /** Minimum relayer fee accepted, in the claimed token */
+    minRelayerFee?: bigint;
+    /** Maximum size of a request body in bytes */
+    maxBodySize?: number;
+}
+
+/** Error caused by the request rather than the relayer, reported as 400 over HTTP unless another status is given */
+export class RelayRequestError extends Error {
+    constructor(message: string, readonly status = 400) {
+        super(message);
+    }
+}
+
+/**
+ * Relayer accepting signed relayed claims over HTTP.
+ * Claims are simulated before submission, so the relayer only pays gas for claims that pay its fee.
+ * Claims are submitted one at a time, so that concurrent requests do not reuse the nonce of the relayer.
+ */
+export class RewardRelayer {
+    readonly maxBodySize: number;
+    private server?: http.Server;
+    private submissions: Promise<unknown> = Promise.resolve();
+
+    constructor(readonly client: RewardBookClient, readonly options: RelayerOptions = {}) {
+        this.maxBodySize = options.maxBodySize ?? 16 * 1024;
+    }
+
+    /** Simulates and submits a relayed claim after the claims already queued */
+    async relay(request: RelayRequest): Promise<RelayResult> {
+        const result = this.submissions.then(() => this.submit(request));
+        this.submissions = result.catch(() => undefined);
+        return result;
+    }
+
+    /** Starts serving POST /claims, returns the port listened on */
+    async listen(port = 0, host = "127.0.0.1"): Promise<number> {
+        const server = http.createServer((req, res) => this.handle(req, res));
+        this.server = server;
+        await new Promise<void>((resolve) => server.listen(port, host, resolve));
+
+        return (server.address() as AddressInfo).port;
+    }
+
+    async close(): Promise<void> {
+        const server = this.server;
+        if (server === undefined) return;
+
+        this.server = undefined;
+        await new Promise<void>((resolve, reject) => server.close((error) => error ? reject(error) : resolve()));
+    }
+
+    private async submit(request: RelayRequest): Promise<RelayResult> {
+        const { claim, signature } = parseRelayRequest(request);
+        if (claim.relayerFee < (this.options.minRelayerFee ?? 0n)) {
+            throw new RelayRequestError(`Relayer fee is less than ${this.options.minRelayerFee}`);
+        }
+
+        const rewardBook = this.client.rewardBook;
+        const relayer = await (rewardBook.runner as Signer).getAddress();
+        if (claim.relayer !== relayer) throw new RelayRequestError(`Relayer fee is not paid to ${relayer}`);
+
+        const args = [claim.token, claim.target, claim.totalReward, claim.relayerFee, claim.relayer, claim.deadline, signature] as const;
+        let amount: bigint;
+        try {
+            amount = await rewardBook.claimRewardRelayed.staticCall(...args);
+        }
+        catch (error) {
+            throw new RelayRequestError(this.client.revertReason(error));
+        }
+
+        if (amount === 0n) throw new RelayRequestError("No additional reward to claim");
+
+        const tx = await rewardBook.claimRewardRelayed(...args);
+        const receipt = await tx.wait();
+        if (receipt === null) throw new Error("Transaction was not mined");
+
+        return { transactionHash: receipt.hash, amount, relayerFee: claim.relayerFee };
+    }
+
+    private async handle(req: http.IncomingMessage, res: http.ServerResponse) {
+        const reply = (status: number, body: object) => {
+            res.writeHead(status, { "Content-Type": "application/json" });
+            res.end(JSON.stringify(body));
+        };
+
+        if (req.method !== "POST" || req.url !== "/claims") {
+            reply(404, { error: "Not found" });
+            return;
+        }
+
+        try {
+            if (Number(req.headers["content-length"] ?? 0) > this.maxBodySize) {
+                throw new RelayRequestError("Request body too large", 413);
+            }
+
+            const chunks: Buffer[] = [];
+            let size = 0;
+            for await (const chunk of req) {
+                size += chunk.length;
+                if (size > this.maxBodySize) throw new RelayRequestError("Request body too large", 413);
+                chunks.push(chunk);
+            }
+
+            let request: RelayRequest;
+            try {
+                request = JSON.parse(Buffer.concat(chunks).toString("utf8"));
+            }
+            catch {
+                throw new RelayRequestError("Invalid JSON");
+            }
+
+            const result = await this.relay(request);
+            reply(200, {
+                transactionHash: result.transactionHash,
+                amount: result.amount.toString(),
+                relayerFee: result.relayerFee.toString(),
+            });
+        }
+        catch (error) {
+            if (error instanceof RelayRequestError) {
+                // the rest of a body too large is discarded
+                req.resume();
+                reply(error.status, { error: error.message });
+            }
+            else {
+                reply(500, { error: this.client.revertReason(error) });
+            }
+        }
+    }
+}
+
+function parseRelayRequest(request: RelayRequest): { claim: RelayedClaim, signature: string } {
+    try {
+        return {
+            claim: {
+                token: getAddress(request.token),
+                target: getAddress(request.target),
+                totalReward: BigInt(request.totalReward),
+                relayerFee: BigInt(request.relayerFee),
+                relayer: getAddress(request.relayer),
+                deadline: BigInt(request.deadline),
+            },
+            signature: request.signature,
+        };
+    }
+    catch (error) {
+        throw new RelayRequestError(`Invalid claim: ${error instanceof Error ? error.message : String(error)}`);
+    }
+}
@@ -0,0 +1,266 @@
+import { Interface, Signer, concat, dataLength, dataSlice, getAddress, getBigInt, getBytes, getUint, solidityPacked, toNumber, toQuantity } from "ethers";
+import { RewardBookClient, RewardDelta, RewardLedger } from "./client";
+
+/** MultiSendCallOnly 1.3.0, deployed at the same address on the chains supported by Safe */
+export const MULTI_SEND_CALL_ONLY = "0x40A2aCCbd92BCA938b02010E17A5b8929b49130D";
+
+const multiSendInterface = new Interface(["function multiSend(bytes transactions)"]);
+
+/** A transaction executed by a Safe, operation 0 for call and 1 for delegatecall */
+export interface SafeTransaction {
+    to: string;
+    value: bigint;
+    data: string;
+    operation: number;
+}
+
+/** A batch in the Safe Transaction Builder JSON format */
+export interface TransactionBuilderBatch {
+    version: string;
+    chainId: string;
+    createdAt: number;
+    meta: {
+        name: string;
+        description: string;
+        txBuilderVersion: string;
+        createdFromSafeAddress: string;
+        createdFromOwnerAddress: string;
+    };
+    transactions: { to: string, value: string, data: string }[];
+}
+
+/** Result of executing a transaction from the Safe on a fork */
+export interface SimulationResult {
+    transaction: SafeTransaction;
+    success: boolean;
+    gasUsed?: bigint;
+    reason?: string;
+}
+
+/** Provider of a Hardhat network, usually forking the target chain */
+export interface ForkProvider {
+    send(method: string, params: unknown[]): Promise<unknown>;
+    getSigner(address: string): Promise<Signer>;
+}
+
+/** Safe transactions sending the outstanding rewards of a ledger */
+export interface SafeRewardProposal {
+    transactions: SafeTransaction[];
+    /** Rewards without additional vested amount, left out of the calls */
+    skipped: RewardDelta[];
+    /** Rewards above the reward cap of their recipient, left out as they would revert the whole call */
+    revoked: RewardDelta[];
+}
+
+export interface SafeProposalOptions {
+    /** Maximum number of rewards in a single send call */
+    maxRewardsPerCall?: number;
+}
+
+/** Encodes operations of a RewardBook owned by a Safe as Safe transactions */
+export class SafeProposalBuilder {
+    readonly maxRewardsPerCall: number;
+
+    constructor(readonly client: RewardBookClient, readonly safe: string, readonly options: SafeProposalOptions = {}) {
+        this.maxRewardsPerCall = options.maxRewardsPerCall ?? 100;
+    }
+
+    /** Encodes sendRewardsEth and sendRewardsERC20 calls for all outstanding rewards in the ledger that are vested and not revoked */
+    async sendRewards(ledger: RewardLedger): Promise<SafeRewardProposal> {
+        const rewardBook = this.client.rewardBook;
+        const skipped: RewardDelta[] = [];
+        const revoked: RewardDelta[] = [];
+        const ethDeltas: RewardDelta[] = [];
+        const erc20Deltas: RewardDelta[] = [];
+        for (const delta of await this.client.computeDeltas(ledger)) {
+            if (await this.client.isRevoked(delta.token, delta.target, delta.totalReward)) {
+                revoked.push(delta);
+            }
+            else if (delta.claimable === 0n) {
+                skipped.push(delta);
+            }
+            else if (await this.client.isNative(delta.token)) {
+                ethDeltas.push(delta);
+            }
+            else {
+                erc20Deltas.push(delta);
+            }
+        }
+
+        const transactions: SafeTransaction[] = [];
+        for (let i = 0; i < ethDeltas.length; i += this.maxRewardsPerCall) {
+            const chunk = ethDeltas.slice(i, i + this.maxRewardsPerCall);
+            transactions.push(await this.call(rewardBook.interface.encodeFunctionData("sendRewardsEth", [
+                chunk.map((delta) => delta.target),
+                chunk.map((delta) => delta.totalReward),
+            ])));
+        }
+
+        for (let i = 0; i < erc20Deltas.length; i += this.maxRewardsPerCall) {
+            const chunk = erc20Deltas.slice(i, i + this.maxRewardsPerCall);
+            transactions.push(await this.call(rewardBook.interface.encodeFunctionData("sendRewardsERC20", [
+                chunk.map((delta) => delta.token),
+                chunk.map((delta) => delta.target),
+                chunk.map((delta) => delta.totalReward),
+            ])));
+        }
+
+        return { transactions, skipped, revoked };
+    }
+
+    /** Encodes collectEth or collectERC20 depending on the token */
+    async collect(token: string, recipient: string, amount: bigint): Promise<SafeTransaction> {
+        const rewardBook = this.client.rewardBook;
+        if (await this.client.isNative(token)) {
+            return this.call(rewardBook.interface.encodeFunctionData("collectEth", [recipient, amount]));
+        }
+
+        return this.call(rewardBook.interface.encodeFunctionData("collectERC20", [token, recipient, amount]));
+    }
+
+    /** Encodes granting the admin role to newAdmin and renouncing it from the Safe */
+    async transferAdmin(newAdmin: string): Promise<SafeTransaction[]> {
+        const rewardBook = this.client.rewardBook;
+        const adminRole = await rewardBook.DEFAULT_ADMIN_ROLE();
+        return [
+            await this.call(rewardBook.interface.encodeFunctionData("grantRole", [adminRole, newAdmin])),
+            await this.call(rewardBook.interface.encodeFunctionData("renounceRole", [adminRole, this.safe])),
+        ];
+    }
+
+    private async call(data: string): Promise<SafeTransaction> {
+        return { to: await this.client.rewardBook.getAddress(), value: 0n, data, operation: 0 };
+    }
+}
+
+/** Combines calls into a single delegatecall to MultiSendCallOnly */
+export function encodeMultiSend(transactions: SafeTransaction[]): SafeTransaction {
+    const encoded = transactions.map((transaction) => {
+        if (transaction.operation !== 0) throw new Error("MultiSendCallOnly does not support delegatecalls");
+
+        return solidityPacked(
+            ["uint8", "address", "uint256", "uint256", "bytes"],
+            [transaction.operation, transaction.to, transaction.value, dataLength(transaction.data), transaction.data],
+        );
+    });
+
+    return {
+        to: MULTI_SEND_CALL_ONLY,
+        value: 0n,
+        data: multiSendInterface.encodeFunctionData("multiSend", [concat(encoded)]),
+        operation: 1,
+    };
+}
+
+/** Splits a MultiSend call back into its calls */
+export function decodeMultiSend(data: string): SafeTransaction[] {
+    const [packed] = multiSendInterface.decodeFunctionData("multiSend", data);
+    const bytes = getBytes(packed);
+    const transactions: SafeTransaction[] = [];
+    for (let offset = 0; offset < bytes.length;) {
+        const length = toNumber(getUint(dataSlice(bytes, offset + 53, offset + 85)));
+        transactions.push({
+            operation: bytes[offset],
+            to: getAddress(dataSlice(bytes, offset + 1, offset + 21)),
+            value: getUint(dataSlice(bytes, offset + 21, offset + 53)),
+            data: dataSlice(bytes, offset + 85, offset + 85 + length),
+        });
+        offset += 85 + length;
+    }
+
+    return transactions;
+}
+
+/** Splits calls into Transaction Builder batches of at most batchSize calls, each executed as one Safe transaction */
+export function toTransactionBuilderBatches(
+    chainId: bigint,
+    safe: string,
+    transactions: SafeTransaction[],
+    name: string,
+    batchSize = 20,
+): TransactionBuilderBatch[] {
+    const batches: TransactionBuilderBatch[] = [];
+    for (let i = 0; i < transactions.length; i += batchSize) {
+        const chunk = transactions.slice(i, i + batchSize);
+        const index = i / batchSize + 1;
+        batches.push({
+            version: "1.0",
+            chainId: chainId.toString(),
+            createdAt: Date.now(),
+            meta: {
+                name: transactions.length > batchSize ? `${name} (${index}/${Math.ceil(transactions.length / batchSize)})` : name,
+                description: `${chunk.length} RewardBook calls`,
+                txBuilderVersion: "1.16.1",
+                createdFromSafeAddress: getAddress(safe),
+                createdFromOwnerAddress: "",
+            },
+            transactions: chunk.map((transaction) => {
+                if (transaction.operation !== 0) throw new Error("Transaction Builder batches only support calls");
+
+                return { to: getAddress(transaction.to), value: transaction.value.toString(), data: transaction.data };
+            }),
+        });
+    }
+
+    return batches;
+}
+
+/**
+ * Executes calls from the Safe in order on a Hardhat network by impersonating it, as MultiSendCallOnly would.
+ * Values are sent from the balance of the Safe, and only the gas it can not pay is funded.
+ * The network state is reverted afterwards.
+ */
+export async function simulateSafeTransactions(
+    provider: ForkProvider,
+    client: RewardBookClient,
+    safe: string,
+    transactions: SafeTransaction[],
+): Promise<SimulationResult[]> {
+    const snapshot = await provider.send("evm_snapshot", []);
+    try {
+        await provider.send("hardhat_impersonateAccount", [safe]);
+        const signer = await provider.getSigner(safe);
+
+        const results: SimulationResult[] = [];
+        for (const transaction of transactions) {
+            if (transaction.operation !== 0) throw new Error("Only calls can be simulated, simulate the calls of a MultiSend instead");
+
+            try {
+                // estimating the gas reverts with the reason of failing calls before anything is sent
+                const request = { to: transaction.to, value: transaction.value, data: transaction.data };
+                const gasLimit = await signer.estimateGas(request);
+                const gasPrice = getBigInt(await provider.send("eth_gasPrice", []) as string);
+                const gasCost = gasLimit * gasPrice;
+
+                // the Safe keeps its own balance for the value of the calls, only the gas it lacks is funded
+                const balance = await getBalance(provider, safe);
+                const shortfall = balance < transaction.value + gasCost ? transaction.value + gasCost - balance : 0n;
+                if (shortfall > 0n) {
+                    await provider.send("hardhat_setBalance", [safe, toQuantity(balance + shortfall)]);
+                }
+
+                const tx = await signer.sendTransaction({ ...request, gasLimit, gasPrice });
+                const receipt = await tx.wait();
+                if (receipt !== null) {
+                    // the executor of a Safe transaction pays its gas, so the Safe is refunded and the funding taken back
+                    const gasPaid = receipt.gasUsed * receipt.gasPrice;
+                    await provider.send("hardhat_setBalance", [safe, toQuantity(await getBalance(provider, safe) + gasPaid - shortfall)]);
+                }
+                results.push({ transaction, success: receipt?.status === 1, gasUsed: receipt?.gasUsed });
+            }
+            catch (error) {
+                results.push({ transaction, success: false, reason: client.revertReason(error) });
+            }
+        }
+
+        return results;
+    }
+    finally {
+        await provider.send("hardhat_stopImpersonatingAccount", [safe]);
+        await provider.send("evm_revert", [snapshot]);
+    }
+}
+
+async function getBalance(provider: ForkProvider, account: string): Promise<bigint> {
+    return getBigInt(await provider.send("eth_getBalance", [account, "latest"]) as string);
+}
@@ -0,0 +1,84 @@
+import { Signer, TypedDataDomain } from "ethers";
+import { RewardBook } from "../typechain-types";
+
+/** Cumulative reward claim authorized by the owner (use NATIVE_ADDRESS as token for ethereum) */
+export interface Claim {
+    token: string;
+    target: string;
+    totalReward: bigint;
+    deadline: bigint;
+}
+
+export const CLAIM_TYPES = {
+    Claim: [
+        { name: "token", type: "address" },
+        { name: "target", type: "address" },
+        { name: "totalReward", type: "uint256" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+/** Reads the EIP-712 domain of a RewardBook contract, binding signatures to its chain and address */
+export async function getClaimDomain(rewardBook: RewardBook): Promise<TypedDataDomain> {
+    const domain = await rewardBook.eip712Domain();
+    return {
+        name: domain.name,
+        version: domain.version,
+        chainId: domain.chainId,
+        verifyingContract: domain.verifyingContract,
+    };
+}
+
+/** Signs a claim for claimRewardEth or claimRewardERC20 */
+export async function signClaim(signer: Signer, domain: TypedDataDomain, claim: Claim): Promise<string> {
+    return signer.signTypedData(domain, CLAIM_TYPES, claim);
+}
+
+/** Claims of one target in multiple tokens, covered by a single signature */
+export interface ClaimBundle {
+    tokens: string[];
+    target: string;
+    totalRewards: bigint[];
+    deadline: bigint;
+}
+
+export const CLAIM_BUNDLE_TYPES = {
+    ClaimBundle: [
+        { name: "tokens", type: "address[]" },
+        { name: "target", type: "address" },
+        { name: "totalRewards", type: "uint256[]" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+/** Signs a claim bundle for claimRewards */
+export async function signClaimBundle(signer: Signer, domain: TypedDataDomain, bundle: ClaimBundle): Promise<string> {
+    if (bundle.tokens.length !== bundle.totalRewards.length) {
+        throw new Error("Claim bundle has different numbers of tokens and total rewards");
+    }
+
+    return signer.signTypedData(domain, CLAIM_BUNDLE_TYPES, bundle);
+}
+
+/** Claim submitted by a relayer, who receives relayerFee out of the additional reward */
+export interface RelayedClaim extends Claim {
+    relayerFee: bigint;
+    /** Address receiving the relayer fee, whoever submits the claim */
+    relayer: string;
+}
+
+export const RELAYED_CLAIM_TYPES = {
+    RelayedClaim: [
+        { name: "token", type: "address" },
+        { name: "target", type: "address" },
+        { name: "totalReward", type: "uint256" },
+        { name: "relayerFee", type: "uint256" },
+        { name: "relayer", type: "address" },
+        { name: "deadline", type: "uint256" },
+    ],
+};
+
+/** Signs a claim for claimRewardRelayed */
+export async function signRelayedClaim(signer: Signer, domain: TypedDataDomain, claim: RelayedClaim): Promise<string> {
+    return signer.signTypedData(domain, RELAYED_CLAIM_TYPES, claim);
+}
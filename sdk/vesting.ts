@@ -0,0 +1,34 @@
+/** Linear vesting of total rewards of a token, as set with setVestingSchedule */
+export interface VestingSchedule {
+    start: bigint;
+    /** Seconds after start before anything is vested */
+    cliff: bigint;
+    /** Seconds after start when the total reward is fully vested, 0 when vesting is disabled */
+    duration: bigint;
+}
+
+/** Vested and already claimed parts of a total reward */
+export interface VestingStatus {
+    totalReward: bigint;
+    vested: bigint;
+    claimed: bigint;
+    claimable: bigint;
+}
+
+/** Computes the vested part of a total reward at a timestamp, matching vestedReward of the contract */
+export function vestedAmount(schedule: VestingSchedule, totalReward: bigint, timestamp: bigint): bigint {
+    if (schedule.duration === 0n || timestamp >= schedule.start + schedule.duration) return totalReward;
+    if (timestamp < schedule.start + schedule.cliff) return 0n;
+
+    return totalReward * (timestamp - schedule.start) / schedule.duration;
+}
+
+/** Returns the timestamp at which the vested part of a total reward reaches amount */
+export function vestingTimestamp(schedule: VestingSchedule, totalReward: bigint, amount: bigint): bigint {
+    if (schedule.duration === 0n || amount === 0n) return schedule.start;
+    if (amount >= totalReward) return schedule.start + schedule.duration;
+
+    // smallest elapsed time where totalReward * elapsed / duration >= amount
+    const elapsed = (amount * schedule.duration + totalReward - 1n) / totalReward;
+    return schedule.start + (elapsed > schedule.cliff ? elapsed : schedule.cliff);
+}
@@ -0,0 +1,347 @@
+import { promises as fs } from "fs";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { SafeTransaction } from "../sdk";
+
+// The sdk depends on the generated typechain bindings, so it is imported lazily
+// to keep the config loadable before the first compilation.
+async function connect(hre: HardhatRuntimeEnvironment, address: string) {
+    const { RewardBookClient } = await import("../sdk");
+    const [signer] = await hre.ethers.getSigners();
+    return RewardBookClient.connect(address, signer);
+}
+
+function parseList(list: string): string[] {
+    return list === "" ? [] : list.split(",").map((item) => item.trim());
+}
+
+task("rewardbook:status", "Shows balances of tokens against outstanding rewards")
+    .addParam("address", "Address of RewardBook")
+    .addOptionalParam("ledger", "JSON or CSV ledger of total rewards to compute outstanding rewards", undefined, types.inputFile)
+    .addOptionalParam("tokens", "Comma-separated token addresses to show in addition to the ledger tokens", "")
+    .setAction(async ({ address, ledger, tokens }, hre) => {
+        const { loadLedger } = await import("../sdk");
+        const client = await connect(hre, address);
+        const nativeAddress = await client.getNativeAddress();
+
+        // outstanding rewards split into the part claimable now and the part not vested yet
+        const outstanding = new Map<string, { claimable: bigint, unvested: bigint }>();
+        for (const token of [nativeAddress, ...parseList(tokens)]) {
+            outstanding.set(hre.ethers.getAddress(token), { claimable: 0n, unvested: 0n });
+        }
+
+        if (ledger !== undefined) {
+            for (const delta of await client.computeDeltas(await loadLedger(ledger))) {
+                const amounts = outstanding.get(delta.token) ?? { claimable: 0n, unvested: 0n };
+                amounts.claimable += delta.claimable;
+                amounts.unvested += delta.amount - delta.claimable;
+                outstanding.set(delta.token, amounts);
+            }
+        }
+
+        console.log(`RewardBook ${address} on ${hre.network.name}${await client.rewardBook.paused() ? " (paused)" : ""}`);
+        for (const [token, { claimable, unvested }] of outstanding) {
+            const solvency = await client.getSolvency(token);
+            const status = ledger === undefined ? "" : solvency.balance >= claimable ? " ok" : ` short by ${claimable - solvency.balance}`;
+            console.log(`${token}: balance ${solvency.balance}${ledger === undefined ? "" : `, claimable ${claimable}, unvested ${unvested}`}${status}`);
+            console.log(`    committed ${solvency.committed}, sent ${solvency.sent}, available ${solvency.available}${solvency.solvent ? "" : " (insolvent)"}`);
+        }
+    });
+
+task("rewardbook:send", "Sends outstanding rewards of a ledger in gas-sized batches")
+    .addParam("address", "Address of RewardBook")
+    .addParam("ledger", "JSON or CSV ledger of total rewards", undefined, types.inputFile)
+    .addOptionalParam("checkpoint", "File for saving progress, used to resume an interrupted run")
+    .addOptionalParam("maxGas", "Maximum estimated gas of a batch", "5000000")
+    .addFlag("dryRun", "Only simulate the batches")
+    .setAction(async ({ address, ledger, checkpoint, maxGas, dryRun }, hre) => {
+        const { FileCheckpointStore, RewardBatchSender, loadLedger } = await import("../sdk");
+        const client = await connect(hre, address);
+        const sender = new RewardBatchSender(client, {
+            maxGasPerChunk: BigInt(maxGas),
+            store: checkpoint === undefined || dryRun ? undefined : new FileCheckpointStore(checkpoint),
+        });
+
+        const rewards = await loadLedger(ledger);
+        if (dryRun) {
+            const { valid, rejected, skipped } = await sender.validate(rewards);
+            const plan = await sender.plan(valid);
+            for (const chunk of plan.chunks) {
+                const amounts = await client.rewardBook.sendRewardsERC20.staticCall(
+                    chunk.map((entry) => entry.token),
+                    chunk.map((entry) => entry.target),
+                    chunk.map((entry) => entry.totalReward),
+                );
+                chunk.forEach((entry, i) => console.log(`Would send ${amounts[i]} of ${entry.token} to ${entry.target}`));
+            }
+
+            for (const entry of [...rejected, ...plan.rejected]) {
+                console.log(`Rejected ${entry.token} for ${entry.target}: ${entry.reason}`);
+            }
+
+            console.log(`${plan.chunks.length} batches, ${skipped.length} rewards without claimable amount`);
+            return;
+        }
+
+        const report = await sender.send(rewards);
+        for (const sent of report.sent) {
+            console.log(`Sent ${sent.amountSent} of ${sent.token} to ${sent.target} in ${sent.transactionHash}`);
+        }
+
+        for (const entry of report.rejected) {
+            console.log(`Rejected ${entry.token} for ${entry.target}: ${entry.reason}`);
+        }
+
+        console.log(`${report.transactions.length} transactions${report.resumed ? " after resuming" : ""}, ${report.skipped.length} rewards without claimable amount`);
+    });
+
+task("rewardbook:sign", "Signs claims of a ledger with the first account")
+    .addParam("address", "Address of RewardBook")
+    .addParam("ledger", "JSON or CSV ledger of total rewards", undefined, types.inputFile)
+    .addOptionalParam("out", "Output JSON file of signed claims", "claims.json")
+    .addOptionalParam("validity", "Seconds until the signatures expire", 30 * 86400, types.int)
+    .addFlag("bundle", "Sign one claim bundle per recipient covering all its tokens")
+    .addFlag("dryRun", "Only simulate the claims instead of writing them")
+    .setAction(async ({ address, ledger, out, validity, bundle, dryRun }, hre) => {
+        const { getClaimDomain, loadLedger, signClaim, signClaimBundle } = await import("../sdk");
+        const client = await connect(hre, address);
+        const [signer] = await hre.ethers.getSigners();
+        const domain = await getClaimDomain(client.rewardBook);
+
+        const latestBlock = await hre.ethers.provider.getBlock("latest");
+        const deadline = BigInt(latestBlock!.timestamp + validity);
+
+        const claims: Record<string, object> = {};
+        for (const [target, rewards] of Object.entries(await loadLedger(ledger))) {
+            if (bundle) {
+                const tokens = Object.keys(rewards);
+                const totalRewards = Object.values(rewards);
+                const signature = await signClaimBundle(signer, domain, { tokens, target, totalRewards, deadline });
+                claims[target] = {
+                    tokens,
+                    totalRewards: totalRewards.map((totalReward) => totalReward.toString()),
+                    deadline: deadline.toString(),
+                    signature,
+                };
+
+                if (dryRun) {
+                    const amounts = await client.rewardBook.claimRewards.staticCall(tokens, target, totalRewards, deadline, signature);
+                    console.log(`Claim bundle for ${target} would send ${amounts.join(", ")} of ${tokens.join(", ")}`);
+                }
+
+                continue;
+            }
+
+            const targetClaims: Record<string, { totalReward: string, deadline: string, signature: string }> = {};
+            for (const [token, totalReward] of Object.entries(rewards)) {
+                const signature = await signClaim(signer, domain, { token, target, totalReward, deadline });
+                targetClaims[token] = { totalReward: totalReward.toString(), deadline: deadline.toString(), signature };
+
+                if (dryRun) {
+                    const amount = await client.rewardBook.claimRewardERC20.staticCall(token, target, totalReward, deadline, signature);
+                    console.log(`Claim of ${token} for ${target} would send ${amount}`);
+                }
+            }
+
+            claims[target] = targetClaims;
+        }
+
+        if (!dryRun) {
+            await fs.writeFile(out, JSON.stringify(claims, null, 4));
+            console.log(`Claims signed by ${signer.address} written to ${out}`);
+        }
+    });
+
+task("rewardbook:commit", "Registers the totals of a ledger as committed rewards")
+    .addParam("address", "Address of RewardBook")
+    .addParam("ledger", "JSON or CSV ledger of total rewards", undefined, types.inputFile)
+    .addFlag("dryRun", "Only show the totals")
+    .setAction(async ({ address, ledger, dryRun }, hre) => {
+        const { ledgerTotals, loadLedger } = await import("../sdk");
+        const client = await connect(hre, address);
+        const totals = ledgerTotals(await loadLedger(ledger));
+        for (const [token, committed] of Object.entries(totals)) {
+            const current = await client.rewardBook.committedRewards(token);
+            console.log(`${token}: committed ${current}${current === committed ? "" : ` -> ${committed}`}`);
+        }
+
+        if (dryRun) return;
+
+        const transactions = await client.commitRewards(totals);
+        console.log(`Committed rewards updated in ${transactions.length} transactions`);
+    });
+
+task("rewardbook:collect", "Collects ethereum or tokens from RewardBook")
+    .addParam("address", "Address of RewardBook")
+    .addParam("amount", "Amount to collect in the smallest unit")
+    .addOptionalParam("token", "Address of the token, ethereum if omitted")
+    .addOptionalParam("recipient", "Address to send to, the first account if omitted")
+    .addFlag("dryRun", "Only simulate the collection")
+    .setAction(async ({ address, amount, token, recipient, dryRun }, hre) => {
+        const client = await connect(hre, address);
+        const [signer] = await hre.ethers.getSigners();
+        const to = recipient ?? signer.address;
+        const value = BigInt(amount);
+
+        const isNative = token === undefined || await client.isNative(token);
+        const rewardBook = client.rewardBook;
+        if (dryRun) {
+            if (isNative) {
+                await rewardBook.collectEth.staticCall(to, value);
+            }
+            else {
+                await rewardBook.collectERC20.staticCall(token, to, value);
+            }
+
+            console.log(`Collecting ${value} of ${isNative ? "ethereum" : token} to ${to} would succeed`);
+            return;
+        }
+
+        const tx = isNative ? await rewardBook.collectEth(to, value) : await rewardBook.collectERC20(token, to, value);
+        await tx.wait();
+        console.log(`Collected ${value} of ${isNative ? "ethereum" : token} to ${to} in ${tx.hash}`);
+    });
+
+task("rewardbook:revoke", "Revokes unclaimed rewards of recipients")
+    .addParam("address", "Address of RewardBook")
+    .addParam("targets", "Comma-separated addresses of the recipients")
+    .addOptionalParam("token", "Address of the token, ethereum if omitted")
+    .addOptionalParam("cap", "Maximum total reward to keep for a single recipient, the amount already sent if omitted")
+    .addFlag("dryRun", "Only show the amounts that would be revoked")
+    .setAction(async ({ address, targets, token, cap, dryRun }, hre) => {
+        const client = await connect(hre, address);
+        const rewardToken = token ?? await client.getNativeAddress();
+        const accounts = parseList(targets).map((target) => hre.ethers.getAddress(target));
+        if (cap !== undefined && accounts.length !== 1) {
+            throw new Error("--cap can only be set for a single recipient");
+        }
+
+        for (const target of accounts) {
+            const sent = await client.getRewardSent(rewardToken, target);
+            const current = await client.getRewardCap(rewardToken, target);
+            console.log(`${target}: sent ${sent}, cap ${current ?? "none"} -> ${cap ?? sent}`);
+        }
+
+        if (dryRun) return;
+
+        const hash = cap === undefined
+            ? await client.revokeRewards(rewardToken, accounts)
+            : (await (await client.rewardBook.setRewardCap(rewardToken, accounts[0], BigInt(cap))).wait())!.hash;
+        console.log(`Revoked rewards of ${accounts.length} recipients in ${hash}`);
+    });
+
+task("rewardbook:propose", "Writes Safe Transaction Builder batches for operations of a RewardBook owned by a Safe")
+    .addParam("address", "Address of RewardBook")
+    .addParam("safe", "Address of the Safe holding the roles")
+    .addOptionalParam("ledger", "JSON or CSV ledger of total rewards to send", undefined, types.inputFile)
+    .addOptionalParam("collect", "Amount to collect in the smallest unit")
+    .addOptionalParam("token", "Address of the token to collect, ethereum if omitted")
+    .addOptionalParam("recipient", "Address to collect to, the Safe if omitted")
+    .addOptionalParam("admin", "Address to transfer the admin role of the Safe to")
+    .addOptionalParam("out", "Prefix of the output JSON files", "safe-batch")
+    .addOptionalParam("batchSize", "Maximum number of calls in a Safe transaction", 20, types.int)
+    .addOptionalParam("maxRewards", "Maximum number of rewards in a send call", 100, types.int)
+    .addOptionalParam("fork", "RPC of the target chain, forked by the hardhat network to simulate the calls")
+    .addFlag("noSimulation", "Skip the simulation, which needs --fork")
+    .setAction(async ({ address, safe, ledger, collect, token, recipient, admin, out, batchSize, maxRewards, fork, noSimulation }, hre) => {
+        const { SafeProposalBuilder, loadLedger, simulateSafeTransactions, toTransactionBuilderBatches } = await import("../sdk");
+        if (!noSimulation && (hre.network.name !== "hardhat" || fork === undefined)) {
+            throw new Error("Simulation runs on the hardhat network forking the target chain with --fork <rpc>, or use --no-simulation");
+        }
+
+        // only this task forks, so the hardhat network of tests and other tasks never reaches a remote chain
+        if (fork !== undefined && hre.network.name === "hardhat") {
+            await hre.network.provider.request({ method: "hardhat_reset", params: [{ forking: { jsonRpcUrl: fork } }] });
+        }
+
+        const client = await connect(hre, address);
+        const builder = new SafeProposalBuilder(client, safe, { maxRewardsPerCall: maxRewards });
+
+        const transactions: SafeTransaction[] = [];
+        if (ledger !== undefined) {
+            const proposal = await builder.sendRewards(await loadLedger(ledger));
+            transactions.push(...proposal.transactions);
+            console.log(`${proposal.skipped.length} rewards without claimable amount and ${proposal.revoked.length} revoked rewards left out`);
+        }
+
+        if (collect !== undefined) {
+            transactions.push(await builder.collect(token ?? await client.getNativeAddress(), recipient ?? safe, BigInt(collect)));
+        }
+
+        if (admin !== undefined) {
+            transactions.push(...await builder.transferAdmin(admin));
+        }
+
+        if (transactions.length === 0) {
+            console.log("Nothing to propose, set --ledger, --collect or --admin");
+            return;
+        }
+
+        if (!noSimulation) {
+            const results = await simulateSafeTransactions(hre.ethers.provider, client, safe, transactions);
+            const failed = results.filter((result) => !result.success);
+            for (const result of failed) {
+                console.log(`Call to ${result.transaction.to} failed: ${result.reason}`);
+            }
+
+            if (failed.length > 0) throw new Error(`${failed.length} of ${results.length} calls failed in simulation`);
+            console.log(`Simulated ${results.length} calls using ${results.reduce((gas, result) => gas + (result.gasUsed ?? 0n), 0n)} gas`);
+        }
+
+        // a fork keeps the chain id of the hardhat network, while the batches are for the forked chain
+        const provider = fork !== undefined && hre.network.name === "hardhat" ? new hre.ethers.JsonRpcProvider(fork) : hre.ethers.provider;
+        const { chainId } = await provider.getNetwork();
+        const batches = toTransactionBuilderBatches(chainId, safe, transactions, `RewardBook ${address}`, batchSize);
+        for (const [i, batch] of batches.entries()) {
+            const file = `${out}-${i + 1}.json`;
+            await fs.writeFile(file, JSON.stringify(batch, null, 4));
+            console.log(`${batch.meta.name} with ${batch.transactions.length} calls written to ${file}`);
+        }
+    });
+
+task("rewardbook:history", "Lists rewards sent to an address")
+    .addParam("address", "Address of RewardBook")
+    .addParam("account", "Address of the recipient")
+    .addOptionalParam("fromBlock", "Block to search from, usually the deployment block", 0, types.int)
+    .addOptionalParam("pageSize", "Number of blocks queried at once", 10000, types.int)
+    .setAction(async ({ address, account, fromBlock, pageSize }, hre) => {
+        const { RewardBookIndexer } = await import("../sdk");
+        const client = await connect(hre, address);
+        const target = hre.ethers.getAddress(account);
+
+        const state = await new RewardBookIndexer(client, { fromBlock, pageSize }).sync();
+        const rewards = state.rewards.filter((reward) => reward.target === target);
+        for (const reward of rewards) {
+            console.log(`Block ${reward.blockNumber}: ${reward.amountSent} of ${reward.token} (total ${reward.totalReward}) by ${reward.caller} in ${reward.transactionHash}`);
+        }
+
+        console.log(`${rewards.length} rewards sent to ${target}`);
+    });
+
+task("rewardbook:reconcile", "Indexes sent rewards and reconciles them against the contract and a ledger")
+    .addParam("address", "Address of RewardBook")
+    .addOptionalParam("ledger", "JSON or CSV ledger of total rewards", undefined, types.inputFile)
+    .addOptionalParam("store", "JSON file of indexed events, synced incrementally", "rewardbook-index.json")
+    .addOptionalParam("fromBlock", "Block to index from, usually the deployment block", 0, types.int)
+    .addOptionalParam("pageSize", "Number of blocks queried at once", 10000, types.int)
+    .addOptionalParam("confirmations", "Blocks an event must be buried under before it is stored", 12, types.int)
+    .setAction(async ({ address, ledger, store, fromBlock, pageSize, confirmations }, hre) => {
+        const { JsonIndexStore, RewardBookIndexer, loadLedger } = await import("../sdk");
+        const client = await connect(hre, address);
+        const indexer = new RewardBookIndexer(client, { fromBlock, pageSize, confirmations, store: new JsonIndexStore(store) });
+
+        const state = await indexer.sync();
+        console.log(`Indexed ${state.rewards.length} rewards up to block ${state.lastBlock}`);
+
+        const report = await indexer.reconcile(ledger === undefined ? undefined : await loadLedger(ledger));
+        for (const discrepancy of report.discrepancies) {
+            const ledgerTotal = discrepancy.ledgerTotal === undefined ? "" : `, ledger ${discrepancy.ledgerTotal}`;
+            console.log(`${discrepancy.kind}: ${discrepancy.token} for ${discrepancy.target}, events ${discrepancy.indexedSent}, on-chain ${discrepancy.onChainSent}${ledgerTotal}`);
+        }
+
+        for (const [token, amount] of Object.entries(report.outstanding)) {
+            console.log(`Outstanding ${amount} of ${token}`);
+        }
+
+        console.log(`${report.totals.length} recipient totals, ${report.discrepancies.length} discrepancies`);
+    });
@@ -0,0 +1,364 @@
+import { loadFixture, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import fc from "fast-check";
+import { ethers } from "hardhat";
+import { ContractTransactionResponse, Signer } from "ethers";
+import { RewardBookClient, getClaimDomain, signClaim } from "../sdk";
+import { RewardBook } from "../typechain-types";
+
+// FUZZ_RUNS sets the number of random sequences. FUZZ_SEED, FUZZ_PATH and FUZZ_REPLAY_PATH replay a failure
+// with the seed, path and replayPath reported by fast-check
+const FUZZ_RUNS = Number(process.env.FUZZ_RUNS || "20");
+const FUZZ_SEED = process.env.FUZZ_SEED ? Number(process.env.FUZZ_SEED) : undefined;
+const FUZZ_PATH = process.env.FUZZ_PATH || undefined;
+const FUZZ_REPLAY_PATH = process.env.FUZZ_REPLAY_PATH || undefined;
+
+const UNIT = ethers.parseEther("0.5");
+const FUNDING = 40n * UNIT;
+const TOKEN_COUNT = 4;
+const RECIPIENT_COUNT = 4;
+
+/** Expected state of the contract, updated by every command */
+interface PayoutModel {
+    /** Amount sent per token and recipient index, keyed by `${token}:${target}` */
+    sent: Map<string, bigint>;
+    /** Largest total sent by a distributor or signed by a signer per token and recipient index */
+    authorized: Map<string, bigint>;
+    /** Balance of the contract per token index */
+    balances: bigint[];
+    /** Claims signed so far, replayed by later commands */
+    claims: { token: number, target: number, totalReward: bigint, deadline: bigint, signature: string }[];
+}
+
+/** Deployed contracts and what was observed from them */
+interface PayoutReal {
+    rewardBook: RewardBook;
+    client: RewardBookClient;
+    owner: Signer;
+    /** Ethereum as NATIVE_ADDRESS followed by the MockToken addresses */
+    tokens: string[];
+    /** Recipients never send transactions, so their balance only changes by rewards */
+    recipients: string[];
+    initialBalances: Map<string, bigint>;
+    /** Sum of amountSent of the RewardSent events per token and recipient index */
+    eventSums: Map<string, bigint>;
+    /** Sent totals read after the previous command */
+    lastSent: Map<string, bigint>;
+}
+
+type Failure = { customError: string } | { reason: string };
+
+function key(token: number, target: number): string {
+    return `${token}:${target}`;
+}
+
+function formatUnits(amount: bigint): string {
+    return `${amount / UNIT}u`;
+}
+
+/** Predicts sending a total reward, returning the amount paid or the failure */
+function predictPayout(sent: Map<string, bigint>, balances: bigint[], token: number, target: number, totalReward: bigint): bigint | Failure {
+    const rewardSent = sent.get(key(token, target)) ?? 0n;
+    if (totalReward < rewardSent) return { customError: "InvalidTotalReward" };
+
+    const amount = totalReward - rewardSent;
+    if (amount > balances[token]) {
+        return { reason: token === 0 ? "Address: insufficient balance" : "ERC20: transfer amount exceeds balance" };
+    }
+
+    return amount;
+}
+
+function applyPayout(model: PayoutModel, token: number, target: number, totalReward: bigint, amount: bigint) {
+    const rewardKey = key(token, target);
+    model.sent.set(rewardKey, (model.sent.get(rewardKey) ?? 0n) + amount);
+    model.balances[token] -= amount;
+    if (totalReward > (model.authorized.get(rewardKey) ?? 0n)) {
+        model.authorized.set(rewardKey, totalReward);
+    }
+}
+
+/** Sends the transaction and checks it reverts as predicted, or records its events */
+async function execute(real: PayoutReal, send: () => Promise<ContractTransactionResponse>, failure?: Failure) {
+    if (failure !== undefined) {
+        if ("customError" in failure) {
+            await expect(send()).to.be.revertedWithCustomError(real.rewardBook, failure.customError);
+        }
+        else {
+            await expect(send()).to.be.revertedWith(failure.reason);
+        }
+        return;
+    }
+
+    const receipt = await (await send()).wait();
+    for (const reward of await real.client.parseRewardsSent(receipt!)) {
+        const rewardKey = key(real.tokens.indexOf(reward.token), real.recipients.indexOf(reward.target));
+        real.eventSums.set(rewardKey, (real.eventSums.get(rewardKey) ?? 0n) + reward.amountSent);
+    }
+}
+
+async function checkInvariants(model: PayoutModel, real: PayoutReal) {
+    const rewardBook = real.rewardBook;
+    const address = await rewardBook.getAddress();
+    for (let token = 0; token < TOKEN_COUNT; token++) {
+        let totalSent = 0n;
+        for (let target = 0; target < RECIPIENT_COUNT; target++) {
+            const rewardKey = key(token, target);
+            const recipient = real.recipients[target];
+            const rewardSent = await real.client.getRewardSent(real.tokens[token], recipient);
+            const balance = token === 0
+                ? await ethers.provider.getBalance(recipient)
+                : await (await ethers.getContractAt("MockToken", real.tokens[token])).balanceOf(recipient);
+
+            expect(rewardSent, `rewardSent of ${rewardKey}`).to.equal(model.sent.get(rewardKey) ?? 0n);
+            expect(rewardSent, `rewardSent of ${rewardKey} decreased`).to.be.gte(real.lastSent.get(rewardKey) ?? 0n);
+            expect(balance - real.initialBalances.get(rewardKey)!, `received by ${rewardKey}`).to.equal(rewardSent);
+            expect(real.eventSums.get(rewardKey) ?? 0n, `events of ${rewardKey}`).to.equal(rewardSent);
+            expect(rewardSent, `rewardSent of ${rewardKey} beyond authorized total`).to.be.lte(model.authorized.get(rewardKey) ?? 0n);
+
+            real.lastSent.set(rewardKey, rewardSent);
+            totalSent += rewardSent;
+        }
+
+        expect(await rewardBook.totalRewardsSent(real.tokens[token]), `totalRewardsSent of ${token}`).to.equal(totalSent);
+
+        const contractBalance = token === 0
+            ? await ethers.provider.getBalance(address)
+            : await (await ethers.getContractAt("MockToken", real.tokens[token])).balanceOf(address);
+        expect(contractBalance, `balance of ${token}`).to.equal(model.balances[token]);
+    }
+}
+
+class SendCommand implements fc.AsyncCommand<PayoutModel, PayoutReal> {
+    constructor(readonly token: number, readonly target: number, readonly delta: bigint) {}
+
+    check() {
+        return true;
+    }
+
+    async run(model: PayoutModel, real: PayoutReal) {
+        const totalReward = totalFromDelta(model, this.token, this.target, this.delta);
+        const payout = predictPayout(model.sent, model.balances, this.token, this.target, totalReward);
+        const failure = typeof payout === "bigint" ? undefined : payout;
+        await execute(real, () => real.rewardBook.sendRewardERC20(real.tokens[this.token], real.recipients[this.target], totalReward), failure);
+        if (typeof payout === "bigint") applyPayout(model, this.token, this.target, totalReward, payout);
+
+        await checkInvariants(model, real);
+    }
+
+    toString() {
+        return `send(token ${this.token}, recipient ${this.target}, ${formatUnits(this.delta)})`;
+    }
+}
+
+class BatchSendCommand implements fc.AsyncCommand<PayoutModel, PayoutReal> {
+    constructor(readonly rows: { token: number, target: number, delta: bigint }[]) {}
+
+    check() {
+        return true;
+    }
+
+    async run(model: PayoutModel, real: PayoutReal) {
+        // rows of the same recipient see the totals sent by the previous rows
+        const sent = new Map(model.sent);
+        const balances = [...model.balances];
+        const totals: bigint[] = [];
+        let failure: Failure | undefined;
+        for (const row of this.rows) {
+            const rewardKey = key(row.token, row.target);
+            const rewardSent = sent.get(rewardKey) ?? 0n;
+            const totalReward = rewardSent + row.delta < 0n ? 0n : rewardSent + row.delta;
+            totals.push(totalReward);
+
+            const payout = predictPayout(sent, balances, row.token, row.target, totalReward);
+            if (typeof payout !== "bigint") {
+                failure = failure ?? payout;
+                continue;
+            }
+
+            sent.set(rewardKey, rewardSent + payout);
+            balances[row.token] -= payout;
+        }
+
+        await execute(real, () => real.rewardBook.sendRewardsERC20(
+            this.rows.map((row) => real.tokens[row.token]),
+            this.rows.map((row) => real.recipients[row.target]),
+            totals,
+        ), failure);
+
+        if (failure === undefined) {
+            this.rows.forEach((row, i) => {
+                const rewardSent = model.sent.get(key(row.token, row.target)) ?? 0n;
+                applyPayout(model, row.token, row.target, totals[i], totals[i] - rewardSent);
+            });
+        }
+
+        await checkInvariants(model, real);
+    }
+
+    toString() {
+        return `batch(${this.rows.map((row) => `token ${row.token} recipient ${row.target} ${formatUnits(row.delta)}`).join(", ")})`;
+    }
+}
+
+class ClaimCommand implements fc.AsyncCommand<PayoutModel, PayoutReal> {
+    constructor(readonly token: number, readonly target: number, readonly delta: bigint) {}
+
+    check() {
+        return true;
+    }
+
+    async run(model: PayoutModel, real: PayoutReal) {
+        const totalReward = totalFromDelta(model, this.token, this.target, this.delta);
+        const deadline = BigInt(await time.latest()) + 86400n;
+        const claim = { token: real.tokens[this.token], target: real.recipients[this.target], totalReward, deadline };
+        const signature = await signClaim(real.owner, await getClaimDomain(real.rewardBook), claim);
+        model.claims.push({ token: this.token, target: this.target, totalReward, deadline, signature });
+
+        const rewardKey = key(this.token, this.target);
+        if (totalReward > (model.authorized.get(rewardKey) ?? 0n)) {
+            model.authorized.set(rewardKey, totalReward);
+        }
+
+        await submitClaim(model, real, model.claims.length - 1);
+    }
+
+    toString() {
+        return `claim(token ${this.token}, recipient ${this.target}, ${formatUnits(this.delta)})`;
+    }
+}
+
+class ReplayClaimCommand implements fc.AsyncCommand<PayoutModel, PayoutReal> {
+    constructor(readonly index: number) {}
+
+    check(model: Readonly<PayoutModel>) {
+        return model.claims.length > 0;
+    }
+
+    async run(model: PayoutModel, real: PayoutReal) {
+        await submitClaim(model, real, this.index % model.claims.length);
+    }
+
+    toString() {
+        return `replayClaim(${this.index})`;
+    }
+}
+
+class CollectCommand implements fc.AsyncCommand<PayoutModel, PayoutReal> {
+    constructor(readonly token: number, readonly amount: bigint) {}
+
+    check() {
+        return true;
+    }
+
+    async run(model: PayoutModel, real: PayoutReal) {
+        // nothing is committed, so the whole balance is available
+        const failure = this.amount > model.balances[this.token] ? { customError: "AvailableBalanceExceeded" } : undefined;
+        const recipient = await real.owner.getAddress();
+        await execute(real, () => this.token === 0
+            ? real.rewardBook.collectEth(recipient, this.amount)
+            : real.rewardBook.collectERC20(real.tokens[this.token], recipient, this.amount), failure);
+        if (failure === undefined) model.balances[this.token] -= this.amount;
+
+        await checkInvariants(model, real);
+    }
+
+    toString() {
+        return `collect(token ${this.token}, ${formatUnits(this.amount)})`;
+    }
+}
+
+function totalFromDelta(model: PayoutModel, token: number, target: number, delta: bigint): bigint {
+    const totalReward = (model.sent.get(key(token, target)) ?? 0n) + delta;
+    return totalReward < 0n ? 0n : totalReward;
+}
+
+/** Submits a signed claim from the owner, so that the recipient does not pay gas */
+async function submitClaim(model: PayoutModel, real: PayoutReal, index: number) {
+    const claim = model.claims[index];
+    const payout = predictPayout(model.sent, model.balances, claim.token, claim.target, claim.totalReward);
+    const failure = typeof payout === "bigint" ? undefined : payout;
+    const target = real.recipients[claim.target];
+    await execute(real, () => claim.token === 0
+        ? real.rewardBook.claimRewardEth(target, claim.totalReward, claim.deadline, claim.signature)
+        : real.rewardBook.claimRewardERC20(real.tokens[claim.token], target, claim.totalReward, claim.deadline, claim.signature), failure);
+    if (typeof payout === "bigint") applyPayout(model, claim.token, claim.target, claim.totalReward, payout);
+
+    await checkInvariants(model, real);
+}
+
+describe("RewardBook invariants", function () {
+    async function deployInvariantFixture() {
+        const signers = await ethers.getSigners();
+        const owner = signers[0];
+        const recipients = signers.slice(1, 1 + RECIPIENT_COUNT).map((signer) => signer.address);
+
+        const RewardBook = await ethers.getContractFactory("RewardBook");
+        const rewardBook = await RewardBook.deploy(owner, ethers.ZeroAddress);
+        await rewardBook.grantRole(ethers.id("SIGNER_ROLE"), owner);
+        await rewardBook.grantRole(ethers.id("DISTRIBUTOR_ROLE"), owner);
+        await rewardBook.grantRole(ethers.id("TREASURY_ROLE"), owner);
+        await owner.sendTransaction({ to: rewardBook, value: FUNDING });
+
+        const tokens = [await rewardBook.NATIVE_ADDRESS()];
+        const Token = await ethers.getContractFactory("MockToken");
+        for (let i = 1; i < TOKEN_COUNT; i++) {
+            const token = await Token.deploy(ethers.parseEther("100000"));
+            await token.transfer(rewardBook, FUNDING);
+            tokens.push(await token.getAddress());
+        }
+
+        const initialBalances = new Map<string, bigint>();
+        for (let token = 0; token < TOKEN_COUNT; token++) {
+            for (let target = 0; target < RECIPIENT_COUNT; target++) {
+                initialBalances.set(key(token, target), token === 0
+                    ? await ethers.provider.getBalance(recipients[target])
+                    : await (await ethers.getContractAt("MockToken", tokens[token])).balanceOf(recipients[target]));
+            }
+        }
+
+        return { rewardBook, owner, tokens, recipients, initialBalances };
+    }
+
+    const token = fc.nat(TOKEN_COUNT - 1);
+    const target = fc.nat(RECIPIENT_COUNT - 1);
+    // mostly increases, sometimes a total below the amount already sent
+    const delta = fc.integer({ min: -2, max: 10 }).map((units) => BigInt(units) * UNIT);
+    const commands = [
+        fc.tuple(token, target, delta).map(([token, target, delta]) => new SendCommand(token, target, delta)),
+        fc.array(fc.record({ token, target, delta }), { minLength: 1, maxLength: 5 }).map((rows) => new BatchSendCommand(rows)),
+        fc.tuple(token, target, delta).map(([token, target, delta]) => new ClaimCommand(token, target, delta)),
+        fc.nat().map((index) => new ReplayClaimCommand(index)),
+        fc.tuple(token, fc.integer({ min: 0, max: 50 })).map(([token, units]) => new CollectCommand(token, BigInt(units) * UNIT)),
+    ];
+
+    it("Should keep cumulative payouts consistent over random sends, claims and collections", async function () {
+        this.timeout(0);
+
+        await fc.assert(fc.asyncProperty(fc.commands(commands, { maxCommands: 20, replayPath: FUZZ_REPLAY_PATH }), async (sequence) => {
+            const setup = async () => {
+                const { rewardBook, owner, tokens, recipients, initialBalances } = await loadFixture(deployInvariantFixture);
+                const model: PayoutModel = {
+                    sent: new Map(),
+                    authorized: new Map(),
+                    balances: new Array(TOKEN_COUNT).fill(FUNDING),
+                    claims: [],
+                };
+                const real: PayoutReal = {
+                    rewardBook,
+                    client: new RewardBookClient(rewardBook),
+                    owner,
+                    tokens,
+                    recipients,
+                    initialBalances,
+                    eventSums: new Map(),
+                    lastSent: new Map(),
+                };
+
+                return { model, real };
+            };
+
+            await fc.asyncModelRun(setup, sequence);
+        }), { numRuns: FUZZ_RUNS, seed: FUZZ_SEED, path: FUZZ_PATH });
+    });
+});
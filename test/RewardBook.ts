@@ -1,8 +1,67 @@
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { loadFixture, mine, setBalance, time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
 import { ethers } from "hardhat";
+import { Signer } from "ethers";
+import { promises as fs } from "fs";
+import http from "http";
+import os from "os";
+import path from "path";
+import {
+    BatchCheckpoint,
+    DETERMINISTIC_DEPLOYER,
+    DETERMINISTIC_DEPLOYER_CODE,
+    DeploymentRegistry,
+    FileCheckpointStore,
+    JsonIndexStore,
+    MULTI_SEND_CALL_ONLY,
+    RewardBatchSender,
+    RewardBookClient,
+    RewardBookIndexer,
+    RewardBookMigrator,
+    RewardMerkleTree,
+    RewardRelayer,
+    SafeProposalBuilder,
+    decodeMultiSend,
+    deployDeterministic,
+    deploymentRoles,
+    deterministicAddress,
+    encodeMultiSend,
+    getClaimDomain,
+    grantRoles,
+    ledgerTotals,
+    parseLedgerCsv,
+    signClaim,
+    signClaimBundle,
+    signRelayedClaim,
+    simulateSafeTransactions,
+    toTransactionBuilderBatches,
+    transferAdmin,
+    vestedAmount,
+    vestingTimestamp,
+} from "../sdk";
+import { MockERC1820Registry, MockToken, RewardBook } from "../typechain-types";
 
 const ZeroAddress = '0x' + '0'.repeat(40);
+const SIGNER_ROLE = ethers.id("SIGNER_ROLE");
+const DISTRIBUTOR_ROLE = ethers.id("DISTRIBUTOR_ROLE");
+const TREASURY_ROLE = ethers.id("TREASURY_ROLE");
+const PAUSER_ROLE = ethers.id("PAUSER_ROLE");
+
+function missingRole(account: { address: string }, role: string) {
+    return `AccessControl: account ${account.address.toLowerCase()} is missing role ${role}`;
+}
+
+function postJson(url: string, body: object): Promise<{ status: number, body: any }> {
+    return new Promise((resolve, reject) => {
+        const request = http.request(url, { method: "POST", headers: { "Content-Type": "application/json" } }, (response) => {
+            const chunks: Buffer[] = [];
+            response.on("data", (chunk) => chunks.push(chunk));
+            response.on("end", () => resolve({ status: response.statusCode!, body: JSON.parse(Buffer.concat(chunks).toString()) }));
+        });
+        request.on("error", reject);
+        request.end(JSON.stringify(body));
+    });
+}
 
 describe("RewardBook", function () {
     // We define a fixture to reuse the same setup in every test.
@@ -16,7 +75,11 @@ describe("RewardBook", function () {
         const token = await Token.deploy(ethers.parseEther("100000"));
 
         const RewardBook = await ethers.getContractFactory("RewardBook");
-        const rewardBook = await RewardBook.deploy(owner);
+        const rewardBook = await RewardBook.deploy(owner, ZeroAddress);
+        await rewardBook.grantRole(SIGNER_ROLE, owner);
+        await rewardBook.grantRole(DISTRIBUTOR_ROLE, owner);
+        await rewardBook.grantRole(TREASURY_ROLE, owner);
+        await rewardBook.grantRole(PAUSER_ROLE, owner);
 
         const amount = ethers.parseEther("10");
         await owner.sendTransaction({
@@ -30,10 +93,101 @@ describe("RewardBook", function () {
     }
 
     describe("Deployment", function () {
-        it("Should set the right owner", async function () {
+        it("Should set the right admin", async function () {
             const { rewardBook, owner } = await loadFixture(deployLockFixture);
 
-            expect(await rewardBook.owner()).to.equal(owner.address);
+            expect(await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), owner)).to.be.true;
+        });
+
+        it("Should not grant other roles to the admin on deployment", async function () {
+            const { owner } = await loadFixture(deployLockFixture);
+
+            const RewardBook = await ethers.getContractFactory("RewardBook");
+            const rewardBook = await RewardBook.deploy(owner, ZeroAddress);
+
+            expect(await rewardBook.hasRole(SIGNER_ROLE, owner)).to.be.false;
+            expect(await rewardBook.hasRole(DISTRIBUTOR_ROLE, owner)).to.be.false;
+            expect(await rewardBook.hasRole(TREASURY_ROLE, owner)).to.be.false;
+        });
+
+        it("Should not be able to deploy with zero admin address", async function () {
+            const RewardBook = await ethers.getContractFactory("RewardBook");
+            await expect(RewardBook.deploy(ZeroAddress, ZeroAddress))
+            .to.be.revertedWithCustomError(RewardBook, "InvalidAddress");
+        });
+
+        it("Should deploy to the same address with the same salt", async function () {
+            const { owner } = await loadFixture(deployLockFixture);
+
+            await ethers.provider.send("hardhat_setCode", [DETERMINISTIC_DEPLOYER, DETERMINISTIC_DEPLOYER_CODE]);
+            const RewardBook = await ethers.getContractFactory("RewardBook");
+            const { data: initCode } = await RewardBook.getDeployTransaction(owner, ZeroAddress);
+            const salt = ethers.id("RewardBook");
+
+            const deployment = await deployDeterministic(owner, salt, initCode);
+            expect(deployment.address).to.equal(deterministicAddress(salt, initCode));
+            expect(deployment.receipt).to.not.be.undefined;
+
+            const rewardBook = RewardBook.attach(deployment.address) as RewardBook;
+            expect(await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), owner)).to.be.true;
+
+            // an existing deployment is detected instead of redeployed
+            const redeployment = await deployDeterministic(owner, salt, initCode);
+            expect(redeployment.address).to.equal(deployment.address);
+            expect(redeployment.receipt).to.be.undefined;
+
+            expect((await deployDeterministic(owner, ethers.id("other"), initCode)).address).to.not.equal(deployment.address);
+        });
+
+        it("Should record deployments per network", async function () {
+            const registry = new DeploymentRegistry(await fs.mkdtemp(path.join(os.tmpdir(), "rewardbook-")));
+            const record = {
+                contract: "RewardBook",
+                address: ZeroAddress,
+                network: "mantle",
+                chainId: 5000,
+                blockNumber: 1,
+                transactionHash: ethers.ZeroHash,
+                salt: ethers.ZeroHash,
+                constructorArgs: [ZeroAddress, ZeroAddress],
+                admin: ZeroAddress,
+                verified: false,
+            };
+
+            expect(await registry.load("mantle", "RewardBook")).to.be.undefined;
+            await registry.save(record);
+            await registry.save({ ...record, contract: "Other" });
+            expect(await registry.load("mantle", "RewardBook")).to.deep.equal(record);
+            expect(await registry.load("mantle", "Other")).to.not.be.undefined;
+            expect(await registry.load("boba", "RewardBook")).to.be.undefined;
+        });
+
+        it("Should grant only the missing deployment roles and transfer the admin role", async function () {
+            const { owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const RewardBook = await ethers.getContractFactory("RewardBook");
+            const rewardBook = await RewardBook.deploy(owner, ZeroAddress);
+            const roles = deploymentRoles({ SIGNER_ADDRESSES: `${otherAccount.address}, ${otherAccount2.address}`, PAUSER_ADDRESSES: "" }, owner.address);
+            expect(roles).to.deep.equal({
+                SIGNER_ROLE: [otherAccount.address, otherAccount2.address],
+                DISTRIBUTOR_ROLE: [owner.address],
+                TREASURY_ROLE: [owner.address],
+                PAUSER_ROLE: [owner.address],
+            });
+
+            await rewardBook.grantRole(SIGNER_ROLE, otherAccount);
+            const granted = await grantRoles(rewardBook, roles);
+            expect(granted.map(({ role, account }) => `${role}:${account}`)).to.deep.equal([
+                `SIGNER_ROLE:${otherAccount2.address}`,
+                `DISTRIBUTOR_ROLE:${owner.address}`,
+                `TREASURY_ROLE:${owner.address}`,
+                `PAUSER_ROLE:${owner.address}`,
+            ]);
+            expect(await grantRoles(rewardBook, roles)).to.be.empty;
+
+            await transferAdmin(rewardBook, owner.address, otherAccount.address);
+            expect(await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), otherAccount)).to.be.true;
+            expect(await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), owner)).to.be.false;
         });
 
         it("Should accept ethereum", async function () {
@@ -99,7 +253,7 @@ describe("RewardBook", function () {
 
             const reward = ethers.parseEther("1");
             await expect(rewardBook.connect(otherAccount).sendRewardEth(otherAccount, reward))
-            .to.be.revertedWith("Ownable: caller is not the owner");
+            .to.be.revertedWith(missingRole(otherAccount, DISTRIBUTOR_ROLE));
         });
 
         it("Should be able to send multiple ethereum rewards from owner", async function () {
@@ -129,7 +283,7 @@ describe("RewardBook", function () {
             const reward1 = ethers.parseEther("1");
             const reward2 = ethers.parseEther("2");
             await expect(rewardBook.connect(otherAccount).sendRewardsEth([otherAccount, otherAccount2], [reward1, reward2]))
-            .to.be.revertedWith("Ownable: caller is not the owner");
+            .to.be.revertedWith(missingRole(otherAccount, DISTRIBUTOR_ROLE));
         });
 
         it("Should not be able to send multiple ethereum rewards with incorrect total rewards", async function () {
@@ -148,9 +302,11 @@ describe("RewardBook", function () {
             const { rewardBook, owner, otherAccount } = await loadFixture(deployLockFixture);
 
             const reward = ethers.parseEther("1");
-            const message = ethers.solidityPacked(["address", "uint256"], [otherAccount.address, reward]);
-            const signature = await owner.signMessage(ethers.toBeArray(message));
-            expect(await rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward, signature))
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            expect(await rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward, deadline, signature))
             .to.emit(rewardBook, "RewardSentEth")
             .withArgs(owner, otherAccount, reward, reward)
             .changeEtherBalance(otherAccount, reward);
@@ -162,9 +318,11 @@ describe("RewardBook", function () {
             const { rewardBook, otherAccount } = await loadFixture(deployLockFixture);
 
             const reward = ethers.parseEther("1");
-            const message = ethers.solidityPacked(["address", "uint256"], [otherAccount.address, reward]);
-            const signature = await otherAccount.signMessage(ethers.toBeArray(message));
-            await expect(rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward, signature))
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(otherAccount, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward, deadline, signature))
             .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
         });
 
@@ -172,10 +330,12 @@ describe("RewardBook", function () {
             const { rewardBook, owner, otherAccount } = await loadFixture(deployLockFixture);
 
             const reward = ethers.parseEther("1");
-            const message = ethers.solidityPacked(["address", "uint256"], [otherAccount.address, reward]);
-            const signature = await owner.signMessage(ethers.toBeArray(message));
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
             const changedSignature = signature.slice(0, -2) + "00";
-            await expect(rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward, changedSignature))
+            await expect(rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward, deadline, changedSignature))
             .to.be.revertedWith("ECDSA: invalid signature");
         });
 
@@ -184,9 +344,11 @@ describe("RewardBook", function () {
 
             const reward = ethers.parseEther("1");
             const reward2 = ethers.parseEther("2");
-            const message = ethers.solidityPacked(["address", "uint256"], [otherAccount.address, reward]);
-            const signature = await owner.signMessage(ethers.toBeArray(message));
-            await expect(rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward2, signature))
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward2, deadline, signature))
             .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
         });        
 
@@ -211,7 +373,7 @@ describe("RewardBook", function () {
 
             const amount = ethers.parseEther("10");
             await expect(rewardBook.connect(otherAccount).collectEth(owner, amount))
-            .to.be.revertedWith("Ownable: caller is not the owner");
+            .to.be.revertedWith(missingRole(otherAccount, TREASURY_ROLE));
         });        
     });
 
@@ -281,7 +443,7 @@ describe("RewardBook", function () {
 
             const reward = ethers.parseEther("1");
             await expect(rewardBook.connect(otherAccount).sendRewardERC20(token, otherAccount, reward))
-            .to.be.revertedWith("Ownable: caller is not the owner");
+            .to.be.revertedWith(missingRole(otherAccount, DISTRIBUTOR_ROLE));
         });
 
         it("Should be able to send multiple token rewards from owner", async function () {
@@ -311,7 +473,7 @@ describe("RewardBook", function () {
             const reward1 = ethers.parseEther("1");
             const reward2 = ethers.parseEther("2");
             await expect(rewardBook.connect(otherAccount).sendRewardsERC20([token, token], [otherAccount, otherAccount2], [reward1, reward2]))
-            .to.be.revertedWith("Ownable: caller is not the owner");
+            .to.be.revertedWith(missingRole(otherAccount, DISTRIBUTOR_ROLE));
         });
 
         it("Should not be able to send multiple token rewards with incorrect total rewards", async function () {
@@ -330,9 +492,10 @@ describe("RewardBook", function () {
             const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
 
             const reward = ethers.parseEther("1");
-            const message = ethers.solidityPacked(["address", "address", "uint256"], [token.target, otherAccount.address, reward]);
-            const signature = await owner.signMessage(ethers.toBeArray(message));
-            expect(await rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, signature))
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            expect(await rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
             .to.emit(rewardBook, "RewardSentERC20")
             .withArgs(owner, otherAccount, reward, reward)
             .changeTokenBalance(token, otherAccount, reward);
@@ -344,9 +507,10 @@ describe("RewardBook", function () {
             const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
 
             const reward = ethers.parseEther("1");
-            const message = ethers.solidityPacked(["address", "address", "uint256"], [token.target, otherAccount.address, reward]);
-            const signature = await otherAccount.signMessage(ethers.toBeArray(message));
-            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, signature))
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(otherAccount, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
             .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
         });
 
@@ -354,10 +518,11 @@ describe("RewardBook", function () {
             const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
 
             const reward = ethers.parseEther("1");
-            const message = ethers.solidityPacked(["address", "address", "uint256"], [token.target, otherAccount.address, reward]);
-            const signature = await owner.signMessage(ethers.toBeArray(message));
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
             const changedSignature = signature.slice(0, -2) + "00";
-            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, changedSignature))
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, changedSignature))
             .to.be.revertedWith("ECDSA: invalid signature");
         });
 
@@ -366,9 +531,10 @@ describe("RewardBook", function () {
 
             const reward = ethers.parseEther("1");
             const reward2 = ethers.parseEther("2");
-            const message = ethers.solidityPacked(["address", "address", "uint256"], [token.target, otherAccount.address, reward]);
-            const signature = await owner.signMessage(ethers.toBeArray(message));
-            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward2, signature))
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward2, deadline, signature))
             .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
         });
 
@@ -393,7 +559,2050 @@ describe("RewardBook", function () {
 
             const amount = ethers.parseEther("10");
             await expect(rewardBook.connect(otherAccount).collectERC20(token, owner, amount))
-            .to.be.revertedWith("Ownable: caller is not the owner");
+            .to.be.revertedWith(missingRole(otherAccount, TREASURY_ROLE));
+        });
+    });
+
+    describe("Claim signatures", function () {
+        it("Should not be able to claim reward with expired signature", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+
+            await time.increaseTo(deadline + 1n);
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "SignatureExpired");
+        });
+
+        it("Should not be able to replay signature from another chain", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const domain = { ...await getClaimDomain(rewardBook), chainId: 5000 };
+            const signature = await signClaim(owner, domain, claim);
+
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+        });
+
+        it("Should not be able to replay signature on another contract with the same owner", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const RewardBook = await ethers.getContractFactory("RewardBook");
+            const otherRewardBook = await RewardBook.deploy(owner, ZeroAddress);
+            await otherRewardBook.grantRole(SIGNER_ROLE, owner);
+            await token.transfer(otherRewardBook, ethers.parseEther("10"));
+
+            const reward = ethers.parseEther("1");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+
+            await expect(otherRewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.be.revertedWithCustomError(otherRewardBook, "InvalidSignature");
+
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.emit(rewardBook, "RewardSentERC20");
+        });
+
+        it("Should not be able to use ethereum signature for token reward", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+        });
+    });
+
+    describe("Claim bundles", function () {
+        async function signBundle(signer: Signer, rewardBook: RewardBook, tokens: string[], target: string, totalRewards: bigint[]) {
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const bundle = { tokens, target, totalRewards, deadline };
+            return { ...bundle, signature: await signClaimBundle(signer, await getClaimDomain(rewardBook), bundle) };
+        }
+
+        it("Should be able to claim ethereum and token rewards with one signature", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const ethReward = ethers.parseEther("1");
+            const tokenReward = ethers.parseEther("2");
+            const bundle = await signBundle(owner, rewardBook, [nativeAddress, token.target as string], otherAccount.address, [ethReward, tokenReward]);
+
+            await expect(rewardBook.connect(otherAccount2).claimRewards(bundle.tokens, bundle.target, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.emit(rewardBook, "RewardSentEth")
+            .withArgs(otherAccount2.address, otherAccount.address, ethReward, ethReward)
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(otherAccount2.address, token.target, otherAccount.address, tokenReward, tokenReward)
+            .to.changeTokenBalance(token, otherAccount, tokenReward);
+            expect(await rewardBook.rewardsSentEth(otherAccount)).to.equal(ethReward);
+
+            // replaying the bundle sends nothing
+            await expect(rewardBook.connect(otherAccount2).claimRewards(bundle.tokens, bundle.target, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.not.emit(rewardBook, "RewardSentERC20");
+        });
+
+        it("Should send only the additional amounts of a bundle", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+
+            const bundle = await signBundle(owner, rewardBook, [token.target as string, nativeAddress], otherAccount.address, [reward * 3n, reward]);
+            expect(await rewardBook.claimRewards.staticCall(bundle.tokens, bundle.target, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.deep.equal([reward * 2n, reward]);
+
+            await expect(rewardBook.claimRewards(bundle.tokens, bundle.target, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.changeEtherBalance(otherAccount, reward);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward * 3n);
+        });
+
+        it("Should not be able to claim a tampered bundle", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward = ethers.parseEther("1");
+            const bundle = await signBundle(owner, rewardBook, [nativeAddress, token.target as string], otherAccount.address, [reward, reward]);
+
+            await expect(rewardBook.claimRewards(bundle.tokens, bundle.target, [reward, reward * 2n], bundle.deadline, bundle.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+            await expect(rewardBook.claimRewards([token.target, nativeAddress], bundle.target, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+            await expect(rewardBook.claimRewards([nativeAddress], bundle.target, [reward], bundle.deadline, bundle.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+            await expect(rewardBook.claimRewards(bundle.tokens, otherAccount2, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+            await expect(rewardBook.claimRewards(bundle.tokens, bundle.target, [reward], bundle.deadline, bundle.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidArrayLengths");
+
+            // a single token claim signature is not valid for a bundle
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline: bundle.deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.claimRewards([nativeAddress], bundle.target, [reward], bundle.deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+        });
+
+        it("Should not be able to claim a bundle signed by non-signer or expired", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const bundle = await signBundle(otherAccount, rewardBook, [token.target as string], otherAccount.address, [reward]);
+            await expect(rewardBook.claimRewards(bundle.tokens, bundle.target, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+
+            await time.increaseTo(bundle.deadline + 1n);
+            await expect(rewardBook.claimRewards(bundle.tokens, bundle.target, bundle.totalRewards, bundle.deadline, bundle.signature))
+            .to.be.revertedWithCustomError(rewardBook, "SignatureExpired");
+        });
+    });
+
+    describe("Roles", function () {
+        async function deployRolesFixture() {
+            const [admin, signer, signer2, distributor, treasury, user] = await ethers.getSigners();
+
+            const Token = await ethers.getContractFactory("MockToken");
+            const token = await Token.deploy(ethers.parseEther("100000"));
+
+            const RewardBook = await ethers.getContractFactory("RewardBook");
+            const rewardBook = await RewardBook.deploy(admin, ZeroAddress);
+            await rewardBook.grantRole(SIGNER_ROLE, signer);
+            await rewardBook.grantRole(SIGNER_ROLE, signer2);
+            await rewardBook.grantRole(DISTRIBUTOR_ROLE, distributor);
+            await rewardBook.grantRole(TREASURY_ROLE, treasury);
+
+            await token.transfer(rewardBook, ethers.parseEther("10"));
+
+            return { rewardBook, token, admin, signer, signer2, distributor, treasury, user };
+        }
+
+        async function signTokenClaim(signer: Signer, rewardBook: RewardBook, token: MockToken, target: string, totalReward: bigint) {
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target, totalReward, deadline };
+            return { deadline, signature: await signClaim(signer, await getClaimDomain(rewardBook), claim) };
+        }
+
+        it("Should be able to send rewards only from distributor", async function () {
+            const { rewardBook, token, admin, signer, treasury, distributor, user } = await loadFixture(deployRolesFixture);
+
+            const reward = ethers.parseEther("1");
+            for (const account of [admin, signer, treasury]) {
+                await expect(rewardBook.connect(account).sendRewardERC20(token, user, reward))
+                .to.be.revertedWith(missingRole(account, DISTRIBUTOR_ROLE));
+            }
+
+            await expect(rewardBook.connect(distributor).sendRewardERC20(token, user, reward))
+            .to.changeTokenBalance(token, user, reward);
+        });
+
+        it("Should be able to collect only from treasury", async function () {
+            const { rewardBook, token, admin, signer, treasury, distributor } = await loadFixture(deployRolesFixture);
+
+            const amount = ethers.parseEther("1");
+            for (const account of [admin, signer, distributor]) {
+                await expect(rewardBook.connect(account).collectERC20(token, account, amount))
+                .to.be.revertedWith(missingRole(account, TREASURY_ROLE));
+            }
+
+            await expect(rewardBook.connect(treasury).collectERC20(token, treasury, amount))
+            .to.changeTokenBalance(token, treasury, amount);
+        });
+
+        it("Should be able to publish merkle root only from signer", async function () {
+            const { rewardBook, admin, signer, treasury, distributor } = await loadFixture(deployRolesFixture);
+
+            for (const account of [admin, treasury, distributor]) {
+                await expect(rewardBook.connect(account).publishMerkleRoot(ethers.ZeroHash))
+                .to.be.revertedWith(missingRole(account, SIGNER_ROLE));
+            }
+
+            await expect(rewardBook.connect(signer).publishMerkleRoot(ethers.ZeroHash))
+            .to.emit(rewardBook, "MerkleRootPublished");
+        });
+
+        it("Should accept claim signatures only from signers", async function () {
+            const { rewardBook, token, admin, signer, signer2, distributor, user } = await loadFixture(deployRolesFixture);
+
+            const reward = ethers.parseEther("1");
+            for (const account of [admin, distributor]) {
+                const { deadline, signature } = await signTokenClaim(account, rewardBook, token, user.address, reward);
+                await expect(rewardBook.connect(user).claimRewardERC20(token, user, reward, deadline, signature))
+                .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+            }
+
+            const claim1 = await signTokenClaim(signer, rewardBook, token, user.address, reward);
+            await expect(rewardBook.connect(user).claimRewardERC20(token, user, reward, claim1.deadline, claim1.signature))
+            .to.changeTokenBalance(token, user, reward);
+
+            const reward2 = ethers.parseEther("2");
+            const claim2 = await signTokenClaim(signer2, rewardBook, token, user.address, reward2);
+            await expect(rewardBook.connect(user).claimRewardERC20(token, user, reward2, claim2.deadline, claim2.signature))
+            .to.changeTokenBalance(token, user, reward2 - reward);
+        });
+
+        it("Should reject signatures of a rotated out signer", async function () {
+            const { rewardBook, token, admin, signer, user } = await loadFixture(deployRolesFixture);
+
+            const reward = ethers.parseEther("1");
+            const { deadline, signature } = await signTokenClaim(signer, rewardBook, token, user.address, reward);
+
+            const [newSigner] = (await ethers.getSigners()).slice(6);
+            await rewardBook.connect(admin).grantRole(SIGNER_ROLE, newSigner);
+            await rewardBook.connect(admin).revokeRole(SIGNER_ROLE, signer);
+
+            await expect(rewardBook.connect(user).claimRewardERC20(token, user, reward, deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+
+            const claim = await signTokenClaim(newSigner, rewardBook, token, user.address, reward);
+            await expect(rewardBook.connect(user).claimRewardERC20(token, user, reward, claim.deadline, claim.signature))
+            .to.changeTokenBalance(token, user, reward);
+        });
+
+        it("Should be able to grant roles only from admin", async function () {
+            const { rewardBook, signer, distributor, treasury, user } = await loadFixture(deployRolesFixture);
+
+            const adminRole = await rewardBook.DEFAULT_ADMIN_ROLE();
+            for (const account of [signer, distributor, treasury]) {
+                await expect(rewardBook.connect(account).grantRole(DISTRIBUTOR_ROLE, user))
+                .to.be.revertedWith(missingRole(account, adminRole));
+            }
+        });
+    });
+
+    describe("Circuit breaker", function () {
+        it("Should not be able to send or claim rewards when paused", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+
+            await rewardBook.pause();
+
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.be.revertedWith("Pausable: paused");
+            await expect(rewardBook.sendRewardsEth([otherAccount], [reward]))
+            .to.be.revertedWith("Pausable: paused");
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.be.revertedWith("Pausable: paused");
+
+            // funds can still be rescued
+            await expect(rewardBook.collectERC20(token, owner, reward))
+            .to.changeTokenBalance(token, owner, reward);
+
+            await rewardBook.unpause();
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.changeTokenBalance(token, otherAccount, reward);
+        });
+
+        it("Should be able to pause only from pauser and unpause only from admin", async function () {
+            const { rewardBook, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.connect(otherAccount).pause())
+            .to.be.revertedWith(missingRole(otherAccount, PAUSER_ROLE));
+
+            await rewardBook.grantRole(PAUSER_ROLE, otherAccount);
+            await rewardBook.connect(otherAccount).pause();
+            expect(await rewardBook.paused()).to.be.true;
+
+            await expect(rewardBook.connect(otherAccount).unpause())
+            .to.be.revertedWith(missingRole(otherAccount, await rewardBook.DEFAULT_ADMIN_ROLE()));
+
+            await rewardBook.connect(owner).unpause();
+            expect(await rewardBook.paused()).to.be.false;
+        });
+
+        it("Should not be able to send more than the recipient limit at once", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const limit = ethers.parseEther("1");
+            await expect(rewardBook.setPayoutLimit(token, 0, 0, limit))
+            .to.emit(rewardBook, "PayoutLimitSet")
+            .withArgs(owner.address, token.target, 0, 0, limit);
+
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, limit + 1n))
+            .to.be.revertedWithCustomError(rewardBook, "RecipientLimitExceeded");
+
+            await rewardBook.sendRewardERC20(token, otherAccount, limit);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, limit * 2n))
+            .to.changeTokenBalance(token, otherAccount, limit);
+
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: limit * 4n, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, limit * 4n, deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "RecipientLimitExceeded");
+        });
+
+        it("Should not be able to send more than the window limit", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const limit = ethers.parseEther("3");
+            const duration = 86400;
+            await rewardBook.setPayoutLimit(token, limit, duration, 0);
+
+            const reward = ethers.parseEther("2");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount2, reward))
+            .to.be.revertedWithCustomError(rewardBook, "PayoutLimitExceeded");
+
+            const [start, paid] = await rewardBook.payoutWindows(token);
+            expect(paid).to.equal(reward);
+
+            await time.setNextBlockTimestamp(start + BigInt(duration) - 1n);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount2, reward))
+            .to.be.revertedWithCustomError(rewardBook, "PayoutLimitExceeded");
+
+            await time.setNextBlockTimestamp(start + BigInt(duration));
+            await expect(rewardBook.sendRewardERC20(token, otherAccount2, reward))
+            .to.changeTokenBalance(token, otherAccount2, reward);
+        });
+
+        it("Should apply ethereum limits to ethereum rewards", async function () {
+            const { rewardBook, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward = ethers.parseEther("1");
+            await rewardBook.setPayoutLimit(nativeAddress, reward, 3600, 0);
+
+            await rewardBook.sendRewardEth(otherAccount, reward);
+            await expect(rewardBook.sendRewardsEth([otherAccount2], [reward]))
+            .to.be.revertedWithCustomError(rewardBook, "PayoutLimitExceeded");
+
+            await time.increase(3600);
+            await expect(rewardBook.sendRewardERC20(nativeAddress, otherAccount2, reward))
+            .to.changeEtherBalance(otherAccount2, reward);
+        });
+
+        it("Should not be able to set payout limit with zero window duration", async function () {
+            const { rewardBook, token } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.setPayoutLimit(token, 1, 0, 0))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidPayoutLimit");
+        });
+
+        it("Should be able to set payout limit only from admin", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.connect(otherAccount).setPayoutLimit(token, 1, 1, 0))
+            .to.be.revertedWith(missingRole(otherAccount, await rewardBook.DEFAULT_ADMIN_ROLE()));
+        });
+    });
+
+    describe("Solvency", function () {
+        it("Should not be able to collect funds needed for committed rewards", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const committed = ethers.parseEther("6");
+            await expect(rewardBook.setCommittedReward(token, committed))
+            .to.emit(rewardBook, "CommittedRewardSet")
+            .withArgs(owner.address, token.target, committed);
+            expect(await rewardBook.outstandingRewards(token)).to.equal(committed);
+            expect(await rewardBook.availableBalance(token)).to.equal(ethers.parseEther("4"));
+
+            await expect(rewardBook.collectERC20(token, owner, ethers.parseEther("4") + 1n))
+            .to.be.revertedWithCustomError(rewardBook, "AvailableBalanceExceeded");
+
+            const reward = ethers.parseEther("2");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            expect(await rewardBook.totalRewardsSent(token)).to.equal(reward);
+            expect(await rewardBook.outstandingRewards(token)).to.equal(committed - reward);
+            expect(await rewardBook.availableBalance(token)).to.equal(ethers.parseEther("4"));
+
+            await expect(rewardBook.collectERC20(token, owner, ethers.parseEther("4")))
+            .to.changeTokenBalance(token, owner, ethers.parseEther("4"));
+            expect(await rewardBook.availableBalance(token)).to.equal(0);
+        });
+
+        it("Should not be able to collect ethereum needed for committed rewards", async function () {
+            const { rewardBook, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            await rewardBook.setCommittedReward(nativeAddress, ethers.parseEther("9"));
+
+            await expect(rewardBook.collectEth(owner, ethers.parseEther("2")))
+            .to.be.revertedWithCustomError(rewardBook, "AvailableBalanceExceeded");
+
+            // claims count towards the sent total like sends
+            const reward = ethers.parseEther("3");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await rewardBook.connect(otherAccount).claimRewardEth(otherAccount, reward, deadline, signature);
+            expect(await rewardBook.totalRewardsSent(nativeAddress)).to.equal(reward);
+
+            await expect(rewardBook.collectEth(owner, ethers.parseEther("1")))
+            .to.changeEtherBalance(owner, ethers.parseEther("1"));
+        });
+
+        it("Should not be able to commit less than already sent", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("2");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            await expect(rewardBook.setCommittedReward(token, reward - 1n))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidCommittedReward");
+            await expect(rewardBook.setCommittedReward(ZeroAddress, reward))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidToken");
+
+            await rewardBook.setCommittedReward(token, reward);
+            expect(await rewardBook.outstandingRewards(token)).to.equal(0);
+        });
+
+        it("Should be able to commit rewards only from treasury", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.connect(otherAccount).setCommittedReward(token, 1))
+            .to.be.revertedWith(missingRole(otherAccount, TREASURY_ROLE));
+
+            // signers publishing rewards can not lock the funds of the treasury
+            await rewardBook.grantRole(SIGNER_ROLE, otherAccount);
+            await expect(rewardBook.connect(otherAccount).setCommittedReward(token, 1))
+            .to.be.revertedWith(missingRole(otherAccount, TREASURY_ROLE));
+
+            await rewardBook.revokeRole(TREASURY_ROLE, owner);
+            await expect(rewardBook.setCommittedReward(token, 1))
+            .to.be.revertedWith(missingRole(owner, TREASURY_ROLE));
+        });
+
+        it("Should report insolvency of committed ledger totals", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const client = new RewardBookClient(rewardBook);
+            const nativeAddress = await client.getNativeAddress();
+            const totals = ledgerTotals({
+                [otherAccount.address]: { [token.target as string]: ethers.parseEther("8"), [nativeAddress]: ethers.parseEther("1") },
+                [otherAccount2.address]: { [token.target as string]: ethers.parseEther("4") },
+            });
+            expect(totals).to.deep.equal({ [token.target as string]: ethers.parseEther("12"), [nativeAddress]: ethers.parseEther("1") });
+
+            expect(await client.commitRewards(totals)).to.have.length(2);
+            expect(await client.commitRewards(totals)).to.have.length(0);
+
+            expect(await client.getSolvency(token.target as string)).to.deep.equal({
+                token: token.target,
+                balance: ethers.parseEther("10"),
+                committed: ethers.parseEther("12"),
+                sent: 0n,
+                outstanding: ethers.parseEther("12"),
+                available: 0n,
+                solvent: false,
+            });
+
+            const ethSolvency = await client.getSolvency(nativeAddress);
+            expect(ethSolvency.solvent).to.be.true;
+            expect(ethSolvency.available).to.equal(ethers.parseEther("9"));
+        });
+    });
+
+    describe("Funding sources", function () {
+        async function deployTreasuryFixture() {
+            const fixture = await deployLockFixture();
+            const [, , , treasury] = await ethers.getSigners();
+            await fixture.token.transfer(treasury, ethers.parseEther("100"));
+
+            return { ...fixture, treasury };
+        }
+
+        it("Should pull rewards from the funding source", async function () {
+            const { rewardBook, token, owner, otherAccount, treasury } = await loadFixture(deployTreasuryFixture);
+
+            await expect(rewardBook.setFundingSource(token, treasury))
+            .to.emit(rewardBook, "FundingSourceSet")
+            .withArgs(owner.address, token.target, treasury.address);
+            await token.connect(treasury).approve(rewardBook, ethers.parseEther("5"));
+
+            const reward = ethers.parseEther("2");
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.changeTokenBalances(token, [treasury, rewardBook, otherAccount], [-reward, 0, reward]);
+
+            // claims are pulled from the source as well
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward * 2n, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward * 2n, deadline, signature))
+            .to.changeTokenBalances(token, [treasury, rewardBook, otherAccount], [-reward, 0, reward]);
+            expect(await token.allowance(treasury, rewardBook)).to.equal(ethers.parseEther("1"));
+        });
+
+        it("Should not be able to send more than the funding source allowance", async function () {
+            const { rewardBook, token, otherAccount, treasury } = await loadFixture(deployTreasuryFixture);
+
+            await rewardBook.setFundingSource(token, treasury);
+            const reward = ethers.parseEther("2");
+            await token.connect(treasury).approve(rewardBook, reward - 1n);
+
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.be.revertedWith("ERC20: insufficient allowance");
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(0);
+
+            // the contract balance is not used as a fallback
+            await expect(rewardBook.sendRewardsERC20([token], [otherAccount], [reward]))
+            .to.be.revertedWith("ERC20: insufficient allowance");
+        });
+
+        it("Should be able to switch between the funding source and the contract balance", async function () {
+            const { rewardBook, token, otherAccount, treasury } = await loadFixture(deployTreasuryFixture);
+
+            const reward = ethers.parseEther("1");
+            await token.connect(treasury).approve(rewardBook, ethers.MaxUint256);
+            await rewardBook.setFundingSource(token, treasury);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.changeTokenBalance(token, treasury, -reward);
+
+            await rewardBook.setFundingSource(token, ZeroAddress);
+            expect(await rewardBook.fundingSources(token)).to.equal(ZeroAddress);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward * 2n))
+            .to.changeTokenBalances(token, [treasury, rewardBook], [0, -reward]);
+        });
+
+        it("Should report solvency against the funding source", async function () {
+            const { rewardBook, token, owner, treasury } = await loadFixture(deployTreasuryFixture);
+
+            await rewardBook.setFundingSource(token, treasury);
+            await rewardBook.setCommittedReward(token, ethers.parseEther("20"));
+
+            // the contract balance is not needed for rewards
+            expect(await rewardBook.availableBalance(token)).to.equal(ethers.parseEther("10"));
+            await rewardBook.collectERC20(token, owner, ethers.parseEther("10"));
+
+            const client = new RewardBookClient(rewardBook);
+            await token.connect(treasury).approve(rewardBook, ethers.parseEther("15"));
+            const solvency = await client.getSolvency(token.target as string);
+            expect(solvency.balance).to.equal(ethers.parseEther("15"));
+            expect(solvency.solvent).to.be.false;
+
+            await token.connect(treasury).approve(rewardBook, ethers.parseEther("1000"));
+            expect(await client.getFundingBalance(token.target as string)).to.equal(ethers.parseEther("100"));
+            expect((await client.getSolvency(token.target as string)).solvent).to.be.true;
+        });
+
+        it("Should not be able to set funding source of ethereum", async function () {
+            const { rewardBook, treasury } = await loadFixture(deployTreasuryFixture);
+
+            await expect(rewardBook.setFundingSource(await rewardBook.NATIVE_ADDRESS(), treasury))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidToken");
+            await expect(rewardBook.setFundingSource(ZeroAddress, treasury))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidToken");
+        });
+
+        it("Should be able to set funding source only from admin", async function () {
+            const { rewardBook, token, otherAccount, treasury } = await loadFixture(deployTreasuryFixture);
+
+            await expect(rewardBook.connect(otherAccount).setFundingSource(token, treasury))
+            .to.be.revertedWith(missingRole(otherAccount, await rewardBook.DEFAULT_ADMIN_ROLE()));
+        });
+    });
+
+    describe("Revocation", function () {
+        it("Should revert a previously valid signature after revocation", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward * 2n, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            expect(await rewardBook.connect(otherAccount).claimRewardERC20.staticCall(token, otherAccount, reward * 2n, deadline, signature))
+            .to.equal(reward * 2n);
+
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            await expect(rewardBook.revokeRewards(token, [otherAccount]))
+            .to.emit(rewardBook, "RewardCapSet")
+            .withArgs(owner.address, token.target, otherAccount.address, reward);
+
+            await expect(rewardBook.connect(otherAccount).claimRewardERC20(token, otherAccount, reward * 2n, deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "RewardRevoked");
+
+            // totals up to the cap are still accepted
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.not.be.reverted;
+        });
+
+        it("Should cap signed totals of a recipient", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward = ethers.parseEther("1");
+            await expect(rewardBook.setRewardCap(nativeAddress, otherAccount, reward))
+            .to.emit(rewardBook, "RewardCapSet")
+            .withArgs(owner.address, nativeAddress, otherAccount.address, reward);
+            expect(await rewardBook.rewardCaps(nativeAddress, otherAccount)).to.deep.equal([true, reward]);
+
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward * 2n, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.claimRewardEth(otherAccount, reward * 2n, deadline, signature))
+            .to.be.revertedWithCustomError(rewardBook, "RewardRevoked");
+            await expect(rewardBook.sendRewardsEth([otherAccount], [reward + 1n]))
+            .to.be.revertedWithCustomError(rewardBook, "RewardRevoked");
+            await expect(rewardBook.sendRewardEth(otherAccount, reward))
+            .to.changeEtherBalance(otherAccount, reward);
+
+            // caps are per token and per recipient
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward * 2n))
+            .to.not.be.reverted;
+            await expect(rewardBook.sendRewardEth(otherAccount2, reward * 2n))
+            .to.not.be.reverted;
+        });
+
+        it("Should revoke merkle and relayed claims", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const tree = RewardMerkleTree.fromLedger({ [otherAccount.address]: { [token.target as string]: reward } });
+            await rewardBook.publishMerkleRoot(tree.root);
+            const leaf = { token: token.target as string, target: otherAccount.address, totalReward: reward };
+
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const relayedClaim = { ...leaf, relayerFee: 1n, relayer: owner.address, deadline };
+            const relayedSignature = await signRelayedClaim(owner, await getClaimDomain(rewardBook), relayedClaim);
+
+            await rewardBook.revokeRewards(token, [otherAccount]);
+            await expect(rewardBook.claimRewardMerkle(token, otherAccount, reward, tree.getProof(leaf)))
+            .to.be.revertedWithCustomError(rewardBook, "RewardRevoked");
+            await expect(rewardBook.claimRewardRelayed(token, otherAccount, reward, 1n, owner, deadline, relayedSignature))
+            .to.be.revertedWithCustomError(rewardBook, "RewardRevoked");
+
+            await expect(rewardBook.removeRewardCap(token, otherAccount))
+            .to.emit(rewardBook, "RewardCapRemoved")
+            .withArgs(owner.address, token.target, otherAccount.address);
+            await expect(rewardBook.claimRewardMerkle(token, otherAccount, reward, tree.getProof(leaf)))
+            .to.changeTokenBalance(token, otherAccount, reward);
+        });
+
+        it("Should not be able to cap below the amount already sent", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            await expect(rewardBook.setRewardCap(token, otherAccount, reward - 1n))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidRewardCap");
+            await expect(rewardBook.setRewardCap(token, ZeroAddress, reward))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidAddress");
+            await expect(rewardBook.revokeRewards(ZeroAddress, [otherAccount]))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidToken");
+        });
+
+        it("Should be able to revoke rewards only from admin", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const adminRole = await rewardBook.DEFAULT_ADMIN_ROLE();
+            await expect(rewardBook.connect(otherAccount).revokeRewards(token, [otherAccount]))
+            .to.be.revertedWith(missingRole(otherAccount, adminRole));
+            await expect(rewardBook.connect(otherAccount).setRewardCap(token, otherAccount, 0))
+            .to.be.revertedWith(missingRole(otherAccount, adminRole));
+            await expect(rewardBook.connect(otherAccount).removeRewardCap(token, otherAccount))
+            .to.be.revertedWith(missingRole(otherAccount, adminRole));
+        });
+
+        it("Should revoke and reject revoked rows from the client", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const client = new RewardBookClient(rewardBook);
+            expect(await client.getRewardCap(token.target as string, otherAccount.address)).to.be.undefined;
+            await client.revokeRewards(token.target as string, [otherAccount.address]);
+            expect(await client.getRewardCap(token.target as string, otherAccount.address)).to.equal(0);
+
+            const reward = ethers.parseEther("1");
+            const report = await new RewardBatchSender(client).send({
+                [otherAccount.address]: { [token.target as string]: reward },
+                [otherAccount2.address]: { [token.target as string]: reward },
+            });
+            expect(report.rejected).to.deep.equal([{ token: token.target, target: otherAccount.address, totalReward: reward, reason: "RewardRevoked" }]);
+            expect(report.sent.map((sent) => sent.target)).to.deep.equal([otherAccount2.address]);
+        });
+
+        it("Should leave revoked rows out of distributions and Safe proposals", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const client = new RewardBookClient(rewardBook);
+            await client.revokeRewards(token.target as string, [otherAccount.address]);
+
+            const reward = ethers.parseEther("1");
+            const ledger = {
+                [otherAccount.address]: { [token.target as string]: reward },
+                [otherAccount2.address]: { [token.target as string]: reward },
+            };
+            const proposal = await new SafeProposalBuilder(client, otherAccount.address).sendRewards(ledger);
+            expect(proposal.revoked.map((delta) => delta.target)).to.deep.equal([otherAccount.address]);
+            expect(rewardBook.interface.parseTransaction(proposal.transactions[0])!.args._targets).to.deep.equal([otherAccount2.address]);
+
+            const report = await client.distribute(ledger);
+            expect(report.revoked.map((delta) => delta.target)).to.deep.equal([otherAccount.address]);
+            expect(report.sent.map((sent) => sent.target)).to.deep.equal([otherAccount2.address]);
+        });
+    });
+
+    describe("Transfer policies", function () {
+        const REVERT = 0;
+        const GROSS_UP = 1;
+        const RECORD_ACTUAL = 2;
+
+        async function deployFeeTokenFixture() {
+            const fixture = await deployLockFixture();
+
+            // 1% of every transfer is burned
+            const FeeToken = await ethers.getContractFactory("MockFeeToken");
+            const feeToken = await FeeToken.deploy(ethers.parseEther("100000"), 100);
+            await feeToken.setFee(0);
+            await feeToken.transfer(fixture.rewardBook, ethers.parseEther("10"));
+            await feeToken.setFee(100);
+
+            const RebasingToken = await ethers.getContractFactory("MockRebasingToken");
+            const rebasingToken = await RebasingToken.deploy(ethers.parseEther("100000"));
+            await rebasingToken.transfer(fixture.rewardBook, ethers.parseEther("10"));
+            await rebasingToken.rebase(ethers.parseEther("3"));
+
+            return { ...fixture, feeToken, rebasingToken };
+        }
+
+        it("Should revert when the recipient receives a different amount by default", async function () {
+            const { rewardBook, feeToken, rebasingToken, otherAccount } = await loadFixture(deployFeeTokenFixture);
+
+            expect(await rewardBook.transferPolicies(feeToken)).to.equal(REVERT);
+            await expect(rewardBook.sendRewardERC20(feeToken, otherAccount, ethers.parseEther("1")))
+            .to.be.revertedWithCustomError(rewardBook, "TransferAmountMismatch");
+            await expect(rewardBook.sendRewardERC20(rebasingToken, otherAccount, ethers.parseEther("1")))
+            .to.be.revertedWithCustomError(rewardBook, "TransferAmountMismatch");
+
+            // exact amounts are still delivered
+            await expect(rewardBook.sendRewardERC20(rebasingToken, otherAccount, ethers.parseEther("3")))
+            .to.changeTokenBalance(rebasingToken, otherAccount, ethers.parseEther("3"));
+        });
+
+        it("Should gross up transfers so that the recipient receives the full amount", async function () {
+            const { rewardBook, feeToken, owner, otherAccount } = await loadFixture(deployFeeTokenFixture);
+
+            await expect(rewardBook.setTransferPolicy(feeToken, GROSS_UP))
+            .to.emit(rewardBook, "TransferPolicySet")
+            .withArgs(owner.address, feeToken.target, GROSS_UP);
+
+            const reward = ethers.parseEther("1");
+            const balance = await feeToken.balanceOf(rewardBook);
+
+            // the event reports the recorded amount, the unit delivered above it by rounding up the top-up is reported apart
+            await expect(rewardBook.sendRewardERC20(feeToken, otherAccount, reward))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(owner.address, feeToken.target, otherAccount.address, reward, reward)
+            .to.emit(rewardBook, "RewardDelivered")
+            .withArgs(feeToken.target, otherAccount.address, reward, reward + 1n);
+
+            const [event] = await rewardBook.queryFilter(rewardBook.filters.RewardSentERC20());
+            expect(event.args.amountSent).to.equal(await rewardBook.rewardsSentERC20(feeToken, otherAccount));
+            expect(await rewardBook.totalRewardsSent(feeToken)).to.equal(reward);
+            expect(await feeToken.balanceOf(otherAccount)).to.equal(reward + 1n);
+            expect(await feeToken.balanceOf(rewardBook)).to.be.lessThan(balance - reward);
+
+            const indexer = new RewardBookIndexer(new RewardBookClient(rewardBook), { fromBlock: 0 });
+            await indexer.sync();
+            expect((await indexer.reconcile()).discrepancies).to.be.empty;
+        });
+
+        it("Should record the amount received by the recipient", async function () {
+            const { rewardBook, feeToken, owner, otherAccount } = await loadFixture(deployFeeTokenFixture);
+
+            await rewardBook.setTransferPolicy(feeToken, RECORD_ACTUAL);
+            const reward = ethers.parseEther("1");
+            const received = reward * 99n / 100n;
+            await expect(rewardBook.sendRewardERC20(feeToken, otherAccount, reward))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(owner.address, feeToken.target, otherAccount.address, reward, received);
+
+            expect(await feeToken.balanceOf(otherAccount)).to.equal(received);
+            expect(await rewardBook.rewardsSentERC20(feeToken, otherAccount)).to.equal(received);
+            expect(await rewardBook.totalRewardsSent(feeToken)).to.equal(received);
+
+            // the shortfall stays claimable
+            await expect(rewardBook.sendRewardERC20(feeToken, otherAccount, reward))
+            .to.changeTokenBalance(feeToken, otherAccount, (reward - received) * 99n / 100n);
+        });
+
+        it("Should record rounding of rebasing tokens", async function () {
+            const { rewardBook, rebasingToken, owner, otherAccount } = await loadFixture(deployFeeTokenFixture);
+
+            await rewardBook.setTransferPolicy(rebasingToken, RECORD_ACTUAL);
+            const reward = ethers.parseEther("1");
+            await expect(rewardBook.sendRewardERC20(rebasingToken, otherAccount, reward))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(owner.address, rebasingToken.target, otherAccount.address, reward, reward - 1n);
+            expect(await rewardBook.rewardsSentERC20(rebasingToken, otherAccount)).to.equal(await rebasingToken.balanceOf(otherAccount));
+        });
+
+        it("Should report the amount received in relayed claims", async function () {
+            const { rewardBook, feeToken, owner, otherAccount, otherAccount2 } = await loadFixture(deployFeeTokenFixture);
+
+            await rewardBook.setTransferPolicy(feeToken, RECORD_ACTUAL);
+            const reward = ethers.parseEther("1");
+            const fee = ethers.parseEther("0.1");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: feeToken.target as string, target: otherAccount.address, totalReward: reward, relayerFee: fee, relayer: otherAccount2.address, deadline };
+            const signature = await signRelayedClaim(owner, await getClaimDomain(rewardBook), claim);
+
+            // the fee is paid out of the reward, so its transfer fee is recorded as well
+            const received = (reward - fee) * 99n / 100n;
+            const feeReceived = fee * 99n / 100n;
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(feeToken, otherAccount, reward, fee, otherAccount2, deadline, signature))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(otherAccount2.address, feeToken.target, otherAccount.address, reward, received + feeReceived)
+            .to.emit(rewardBook, "RelayerFeePaid")
+            .withArgs(otherAccount2.address, feeToken.target, otherAccount.address, feeReceived);
+            expect(await feeToken.balanceOf(otherAccount)).to.equal(received);
+            expect(await feeToken.balanceOf(otherAccount2)).to.equal(feeReceived);
+            expect(await rewardBook.rewardsSentERC20(feeToken, otherAccount)).to.equal(received + feeReceived);
+        });
+
+        it("Should gross up relayer fees", async function () {
+            const { rewardBook, feeToken, owner, otherAccount, otherAccount2 } = await loadFixture(deployFeeTokenFixture);
+
+            await rewardBook.setTransferPolicy(feeToken, GROSS_UP);
+            const reward = ethers.parseEther("1");
+            const fee = ethers.parseEther("0.1");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: feeToken.target as string, target: otherAccount.address, totalReward: reward, relayerFee: fee, relayer: otherAccount2.address, deadline };
+            const signature = await signRelayedClaim(owner, await getClaimDomain(rewardBook), claim);
+
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(feeToken, otherAccount, reward, fee, otherAccount2, deadline, signature))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(otherAccount2.address, feeToken.target, otherAccount.address, reward, reward)
+            .to.emit(rewardBook, "RelayerFeePaid")
+            .withArgs(otherAccount2.address, feeToken.target, otherAccount.address, fee);
+            expect(await feeToken.balanceOf(otherAccount)).to.be.within(reward - fee, reward - fee + 1n);
+            expect(await feeToken.balanceOf(otherAccount2)).to.be.within(fee, fee + 1n);
+
+            const [sent] = await rewardBook.queryFilter(rewardBook.filters.RewardSentERC20());
+            expect(sent.args.amountSent).to.equal(await rewardBook.rewardsSentERC20(feeToken, otherAccount));
+        });
+
+        it("Should not send rewards reentering from token hooks", async function () {
+            const { rewardBook, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const HookToken = await ethers.getContractFactory("MockHookToken");
+            const hookToken = await HookToken.deploy(ethers.parseEther("100000"));
+            await hookToken.transfer(rewardBook, ethers.parseEther("10"));
+            await rewardBook.grantRole(DISTRIBUTOR_ROLE, hookToken);
+
+            const reward = ethers.parseEther("1");
+            await hookToken.setCallback(rewardBook, rewardBook.interface.encodeFunctionData("sendRewardERC20", [owner.address, otherAccount.address, reward]));
+            await expect(rewardBook.sendRewardERC20(hookToken, otherAccount, reward))
+            .to.be.revertedWith("ReentrancyGuard: reentrant call");
+        });
+
+        it("Should not correct the books of tokens with hooks", async function () {
+            const { rewardBook, feeToken } = await loadFixture(deployFeeTokenFixture);
+
+            const Registry = await ethers.getContractFactory("MockERC1820Registry");
+            const code = await ethers.provider.getCode(await (await Registry.deploy()).getAddress());
+            const registryAddress = "0x1820a4B7618BdE71Dce8cdc73aAB6C95905faD24";
+            await ethers.provider.send("hardhat_setCode", [registryAddress, code]);
+            const registry = Registry.attach(registryAddress) as MockERC1820Registry;
+            await registry.setInterfaceImplementer(feeToken, ethers.id("ERC777Token"), feeToken);
+
+            await expect(rewardBook.setTransferPolicy(feeToken, GROSS_UP))
+            .to.be.revertedWithCustomError(rewardBook, "HookTokenNotSupported");
+            await expect(rewardBook.setTransferPolicy(feeToken, RECORD_ACTUAL))
+            .to.be.revertedWithCustomError(rewardBook, "HookTokenNotSupported");
+            await rewardBook.setTransferPolicy(feeToken, REVERT);
+        });
+
+        it("Should not be able to set transfer policy of ethereum or from non-admin", async function () {
+            const { rewardBook, feeToken, otherAccount } = await loadFixture(deployFeeTokenFixture);
+
+            await expect(rewardBook.setTransferPolicy(await rewardBook.NATIVE_ADDRESS(), GROSS_UP))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidToken");
+            await expect(rewardBook.connect(otherAccount).setTransferPolicy(feeToken, GROSS_UP))
+            .to.be.revertedWith(missingRole(otherAccount, await rewardBook.DEFAULT_ADMIN_ROLE()));
+        });
+    });
+
+    describe("Relayed claims", function () {
+        async function deployForwarderFixture() {
+            const [owner, user, relayer] = await ethers.getSigners();
+
+            const Token = await ethers.getContractFactory("MockToken");
+            const token = await Token.deploy(ethers.parseEther("100000"));
+
+            const Forwarder = await ethers.getContractFactory("MockForwarder");
+            const forwarder = await Forwarder.deploy();
+
+            const RewardBook = await ethers.getContractFactory("RewardBook");
+            const rewardBook = await RewardBook.deploy(owner, forwarder);
+            await rewardBook.grantRole(SIGNER_ROLE, owner);
+            await token.transfer(rewardBook, ethers.parseEther("10"));
+
+            return { rewardBook, token, forwarder, owner, user, relayer };
+        }
+
+        async function signTokenRelayedClaim(signer: Signer, rewardBook: RewardBook, token: MockToken, target: string, totalReward: bigint, relayerFee: bigint, relayer: string) {
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target, totalReward, relayerFee, relayer, deadline };
+            return { ...claim, signature: await signRelayedClaim(signer, await getClaimDomain(rewardBook), claim) };
+        }
+
+        it("Should pay relayer fee to the relayer out of the reward", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const fee = ethers.parseEther("0.01");
+            const claim = await signTokenRelayedClaim(owner, rewardBook, token, otherAccount.address, reward, fee, otherAccount2.address);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(token, otherAccount, reward, fee, otherAccount2, claim.deadline, claim.signature))
+            .to.emit(rewardBook, "RelayerFeePaid")
+            .withArgs(otherAccount2.address, token.target, otherAccount.address, fee)
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(otherAccount2.address, token.target, otherAccount.address, reward, reward)
+            .to.changeTokenBalances(token, [otherAccount, otherAccount2], [reward - fee, fee]);
+
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward);
+        });
+
+        it("Should pay ethereum relayer fee", async function () {
+            const { rewardBook, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward = ethers.parseEther("1");
+            const fee = ethers.parseEther("0.01");
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, relayerFee: fee, relayer: otherAccount2.address, deadline };
+            const signature = await signRelayedClaim(owner, await getClaimDomain(rewardBook), claim);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(nativeAddress, otherAccount, reward, fee, otherAccount2, deadline, signature))
+            .to.changeEtherBalances([otherAccount, otherAccount2], [reward - fee, fee], { includeFee: false });
+        });
+
+        it("Should not be able to pay relayer fee larger than the additional reward", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const tooLarge = await signTokenRelayedClaim(owner, rewardBook, token, otherAccount.address, reward, reward + 1n, otherAccount2.address);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(token, otherAccount, reward, reward + 1n, otherAccount2, tooLarge.deadline, tooLarge.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidRelayerFee");
+
+            // a replayed claim has nothing left to pay the fee with
+            const fee = 1n;
+            const claim = await signTokenRelayedClaim(owner, rewardBook, token, otherAccount.address, reward, fee, otherAccount2.address);
+            await rewardBook.connect(otherAccount2).claimRewardRelayed(token, otherAccount, reward, fee, otherAccount2, claim.deadline, claim.signature);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(token, otherAccount, reward, fee, otherAccount2, claim.deadline, claim.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidRelayerFee");
+        });
+
+        it("Should not be able to change the signed relayer fee or relayer", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const fee = ethers.parseEther("0.01");
+            const claim = await signTokenRelayedClaim(owner, rewardBook, token, otherAccount.address, reward, fee, otherAccount2.address);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(token, otherAccount, reward, fee * 2n, otherAccount2, claim.deadline, claim.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+            await expect(rewardBook.connect(otherAccount).claimRewardRelayed(token, otherAccount, reward, fee, otherAccount, claim.deadline, claim.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(token, otherAccount, reward, fee, ZeroAddress, claim.deadline, claim.signature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidAddress");
+
+            // a copied transaction still pays the signed relayer
+            await expect(rewardBook.claimRewardRelayed(token, otherAccount, reward, fee, otherAccount2, claim.deadline, claim.signature))
+            .to.emit(rewardBook, "RelayerFeePaid")
+            .withArgs(otherAccount2.address, token.target, otherAccount.address, fee)
+            .to.changeTokenBalances(token, [otherAccount, otherAccount2], [reward - fee, fee]);
+
+            // plain claim signatures are not valid for relayed claims
+            const plainClaim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline: claim.deadline };
+            const plainSignature = await signClaim(owner, await getClaimDomain(rewardBook), plainClaim);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(token, otherAccount, reward, 0, otherAccount2, claim.deadline, plainSignature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidSignature");
+        });
+
+        it("Should be able to claim through the trusted forwarder", async function () {
+            const { rewardBook, token, forwarder, owner, user, relayer } = await loadFixture(deployForwarderFixture);
+
+            expect(await rewardBook.isTrustedForwarder(forwarder)).to.be.true;
+
+            const reward = ethers.parseEther("1");
+            const fee = ethers.parseEther("0.01");
+            const claim = await signTokenRelayedClaim(owner, rewardBook, token, user.address, reward, fee, relayer.address);
+            const data = rewardBook.interface.encodeFunctionData("claimRewardRelayed", [token.target, user.address, reward, fee, relayer.address, claim.deadline, claim.signature]);
+            const request = {
+                from: user.address,
+                to: rewardBook.target as string,
+                value: 0n,
+                gas: 500000n,
+                nonce: await forwarder.getNonce(user),
+                data,
+            };
+            const forwarderDomain = { name: "MinimalForwarder", version: "0.0.1", chainId: (await ethers.provider.getNetwork()).chainId, verifyingContract: forwarder.target as string };
+            const forwardRequestTypes = {
+                ForwardRequest: [
+                    { name: "from", type: "address" },
+                    { name: "to", type: "address" },
+                    { name: "value", type: "uint256" },
+                    { name: "gas", type: "uint256" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "data", type: "bytes" },
+                ],
+            };
+            const requestSignature = await user.signTypedData(forwarderDomain, forwardRequestTypes, request);
+
+            await expect(forwarder.connect(relayer).execute(request, requestSignature))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(user.address, token.target, user.address, reward, reward)
+            .to.emit(rewardBook, "RelayerFeePaid")
+            .withArgs(relayer.address, token.target, user.address, fee)
+            .to.changeTokenBalances(token, [user, relayer], [reward - fee, fee]);
+        });
+
+        it("Should check roles of the forwarded sender", async function () {
+            const { rewardBook, forwarder, user, relayer } = await loadFixture(deployForwarderFixture);
+
+            const data = rewardBook.interface.encodeFunctionData("publishMerkleRoot", [ethers.ZeroHash]);
+            const request = {
+                from: user.address,
+                to: rewardBook.target as string,
+                value: 0n,
+                gas: 500000n,
+                nonce: await forwarder.getNonce(user),
+                data,
+            };
+            const forwarderDomain = { name: "MinimalForwarder", version: "0.0.1", chainId: (await ethers.provider.getNetwork()).chainId, verifyingContract: forwarder.target as string };
+            const forwardRequestTypes = {
+                ForwardRequest: [
+                    { name: "from", type: "address" },
+                    { name: "to", type: "address" },
+                    { name: "value", type: "uint256" },
+                    { name: "gas", type: "uint256" },
+                    { name: "nonce", type: "uint256" },
+                    { name: "data", type: "bytes" },
+                ],
+            };
+
+            // MinimalForwarder does not bubble up reverts, so check the effect instead
+            await forwarder.connect(relayer).execute(request, await user.signTypedData(forwarderDomain, forwardRequestTypes, request));
+            expect(await rewardBook.merkleEpoch()).to.equal(0);
+
+            await rewardBook.grantRole(SIGNER_ROLE, user);
+            request.nonce = await forwarder.getNonce(user);
+            await expect(forwarder.connect(relayer).execute(request, await user.signTypedData(forwarderDomain, forwardRequestTypes, request)))
+            .to.emit(rewardBook, "MerkleRootPublished")
+            .withArgs(user.address, 1, ethers.ZeroHash);
+        });
+
+        it("Should relay claims received over HTTP", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const relayer = new RewardRelayer(new RewardBookClient(rewardBook.connect(otherAccount2)), { minRelayerFee: 10n });
+            const port = await relayer.listen();
+            const url = `http://127.0.0.1:${port}/claims`;
+            try {
+                const reward = ethers.parseEther("1");
+                const fee = ethers.parseEther("0.01");
+                const claim = await signTokenRelayedClaim(owner, rewardBook, token, otherAccount.address, reward, fee, otherAccount2.address);
+                const request = {
+                    token: claim.token,
+                    target: claim.target,
+                    totalReward: reward.toString(),
+                    relayerFee: fee.toString(),
+                    relayer: claim.relayer,
+                    deadline: claim.deadline.toString(),
+                    signature: claim.signature,
+                };
+
+                const response = await postJson(url, request);
+                expect(response.status).to.equal(200);
+                expect(response.body.amount).to.equal(reward.toString());
+                expect(await token.balanceOf(otherAccount)).to.equal(reward - fee);
+                expect(await token.balanceOf(otherAccount2)).to.equal(fee);
+
+                // simulation fails without submitting
+                const replay = await postJson(url, request);
+                expect(replay.status).to.equal(400);
+                expect(replay.body.error).to.equal("InvalidRelayerFee");
+
+                const lowFee = await postJson(url, { ...request, relayerFee: "1" });
+                expect(lowFee.status).to.equal(400);
+
+                const otherRelayer = await postJson(url, { ...request, relayer: otherAccount.address });
+                expect(otherRelayer.status).to.equal(400);
+                expect(otherRelayer.body.error).to.equal(`Relayer fee is not paid to ${otherAccount2.address}`);
+
+                const invalid = await postJson(url, { ...request, target: "0x1234" });
+                expect(invalid.status).to.equal(400);
+
+                const tooLarge = await postJson(url, { ...request, padding: "0".repeat(relayer.maxBodySize) });
+                expect(tooLarge.status).to.equal(413);
+            }
+            finally {
+                await relayer.close();
+            }
+        });
+
+        it("Should submit concurrent claims one at a time", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const relayer = new RewardRelayer(new RewardBookClient(rewardBook.connect(otherAccount2)));
+            const port = await relayer.listen();
+            const url = `http://127.0.0.1:${port}/claims`;
+            try {
+                const reward = ethers.parseEther("1");
+                const fee = ethers.parseEther("0.01");
+                const requests = await Promise.all([otherAccount, owner].map(async (target) => {
+                    const claim = await signTokenRelayedClaim(owner, rewardBook, token, target.address, reward, fee, otherAccount2.address);
+                    return {
+                        token: claim.token,
+                        target: claim.target,
+                        totalReward: reward.toString(),
+                        relayerFee: fee.toString(),
+                        relayer: claim.relayer,
+                        deadline: claim.deadline.toString(),
+                        signature: claim.signature,
+                    };
+                }));
+
+                const responses = await Promise.all(requests.map((request) => postJson(url, request)));
+                expect(responses.map((response) => response.status)).to.deep.equal([200, 200]);
+                expect(await token.balanceOf(otherAccount2)).to.equal(fee * 2n);
+            }
+            finally {
+                await relayer.close();
+            }
+        });
+    });
+
+    describe("Vesting", function () {
+        it("Should send only the vested part of the total reward", async function () {
+            const { rewardBook, token, owner, otherAccount } = await loadFixture(deployLockFixture);
+
+            const start = BigInt(await time.latest()) + 100n;
+            await expect(rewardBook.setVestingSchedule(token, start, 1000, 4000))
+            .to.emit(rewardBook, "VestingScheduleSet")
+            .withArgs(owner.address, token.target, start, 1000, 4000);
+
+            const reward = ethers.parseEther("4");
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.changeTokenBalance(token, otherAccount, 0);
+
+            // nothing is vested before the cliff
+            await time.setNextBlockTimestamp(start + 999n);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.not.emit(rewardBook, "RewardSentERC20");
+
+            await time.setNextBlockTimestamp(start + 1000n);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(owner.address, token.target, otherAccount.address, reward, reward / 4n)
+            .to.changeTokenBalance(token, otherAccount, reward / 4n);
+
+            await time.setNextBlockTimestamp(start + 3000n);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.changeTokenBalance(token, otherAccount, reward / 2n);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward * 3n / 4n);
+
+            await time.setNextBlockTimestamp(start + 5000n);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.changeTokenBalance(token, otherAccount, reward / 4n);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward);
+        });
+
+        it("Should skip unvested rewards when building sends", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const start = BigInt(await time.latest()) + 1000n;
+            await rewardBook.setVestingSchedule(token, start, 0, 1000);
+
+            const reward = ethers.parseEther("1");
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const ledger = { [otherAccount.address]: { [token.target as string]: reward }, [otherAccount2.address]: { [nativeAddress]: reward } };
+            const client = new RewardBookClient(rewardBook);
+
+            const { valid, skipped } = await new RewardBatchSender(client).validate(ledger);
+            expect(valid.map((entry) => entry.target)).to.deep.equal([otherAccount2.address]);
+            expect(skipped.map((entry) => entry.target)).to.deep.equal([otherAccount.address]);
+
+            const proposal = await new SafeProposalBuilder(client, otherAccount.address).sendRewards(ledger);
+            expect(proposal.transactions).to.have.length(1);
+            expect(proposal.skipped.map((delta) => delta.target)).to.deep.equal([otherAccount.address]);
+
+            const report = await client.distribute(ledger);
+            expect(report.transactions).to.have.length(1);
+            expect(report.skipped.map((delta) => delta.target)).to.deep.equal([otherAccount.address]);
+            expect(report.sent.map((sent) => sent.target)).to.deep.equal([otherAccount2.address]);
+        });
+
+        it("Should vest increased totals from the same schedule", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const start = BigInt(await time.latest());
+            await rewardBook.setVestingSchedule(token, start, 0, 1000);
+
+            const reward = ethers.parseEther("1");
+            await time.setNextBlockTimestamp(start + 500n);
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward / 2n);
+
+            // half of the new total is vested as well
+            await time.setNextBlockTimestamp(start + 600n);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward * 2n))
+            .to.changeTokenBalance(token, otherAccount, reward * 12n / 10n - reward / 2n);
+
+            // already sent amounts still bound the total
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidTotalReward");
+        });
+
+        it("Should vest claimed and ethereum rewards", async function () {
+            const { rewardBook, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const start = BigInt(await time.latest());
+            await rewardBook.setVestingSchedule(nativeAddress, start, 0, 1000);
+
+            const reward = ethers.parseEther("1");
+            const deadline = start + 3600n;
+            const claim = { token: nativeAddress, target: otherAccount.address, totalReward: reward, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await time.setNextBlockTimestamp(start + 250n);
+            await expect(rewardBook.connect(otherAccount2).claimRewardEth(otherAccount, reward, deadline, signature))
+            .to.changeEtherBalance(otherAccount, reward / 4n);
+
+            // the relayer fee has to fit in the vested amount
+            const fee = reward / 2n;
+            const relayedClaim = { ...claim, relayerFee: fee, relayer: otherAccount2.address };
+            const relayedSignature = await signRelayedClaim(owner, await getClaimDomain(rewardBook), relayedClaim);
+            await time.setNextBlockTimestamp(start + 500n);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(nativeAddress, otherAccount, reward, fee, otherAccount2, deadline, relayedSignature))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidRelayerFee");
+
+            await time.setNextBlockTimestamp(start + 750n);
+            await expect(rewardBook.connect(otherAccount2).claimRewardRelayed(nativeAddress, otherAccount, reward, fee, otherAccount2, deadline, relayedSignature))
+            .to.changeEtherBalances([otherAccount, otherAccount2], [0, fee], { includeFee: false });
+        });
+
+        it("Should report vested and claimed amounts", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const start = BigInt(await time.latest());
+            const schedule = { start, cliff: 100n, duration: 1000n };
+            await rewardBook.setVestingSchedule(token, schedule.start, schedule.cliff, schedule.duration);
+
+            const client = new RewardBookClient(rewardBook);
+            expect(await client.getVestingSchedule(token.target as string)).to.deep.equal(schedule);
+
+            const reward = ethers.parseEther("1");
+            await time.setNextBlockTimestamp(start + 400n);
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+
+            await time.increaseTo(start + 700n);
+            expect(await rewardBook.vestedReward(token, reward)).to.equal(vestedAmount(schedule, reward, start + 700n));
+            expect(await client.getVestingStatus(token.target as string, otherAccount.address, reward)).to.deep.equal({
+                totalReward: reward,
+                vested: reward * 7n / 10n,
+                claimed: reward * 4n / 10n,
+                claimable: reward * 3n / 10n,
+            });
+
+            expect(vestedAmount(schedule, reward, start + 99n)).to.equal(0);
+            expect(vestedAmount(schedule, reward, start + 2000n)).to.equal(reward);
+            expect(vestingTimestamp(schedule, reward, 1n)).to.equal(start + 100n);
+            expect(vestingTimestamp(schedule, reward, reward / 2n)).to.equal(start + 500n);
+            expect(vestingTimestamp(schedule, reward, reward)).to.equal(start + 1000n);
+        });
+
+        it("Should send the full total reward when vesting is disabled", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const start = BigInt(await time.latest()) + 1000n;
+            await rewardBook.setVestingSchedule(token, start, 0, 1000);
+            await rewardBook.setVestingSchedule(token, start, 0, 0);
+
+            const reward = ethers.parseEther("1");
+            await expect(rewardBook.sendRewardERC20(token, otherAccount, reward))
+            .to.changeTokenBalance(token, otherAccount, reward);
+        });
+
+        it("Should not be able to set vesting schedule with cliff longer than duration", async function () {
+            const { rewardBook, token } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.setVestingSchedule(token, 0, 1001, 1000))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidVestingSchedule");
+            await expect(rewardBook.setVestingSchedule(ZeroAddress, 0, 0, 1000))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidToken");
+        });
+
+        it("Should be able to set vesting schedule only from admin", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.connect(otherAccount).setVestingSchedule(token, 0, 0, 1000))
+            .to.be.revertedWith(missingRole(otherAccount, await rewardBook.DEFAULT_ADMIN_ROLE()));
+        });
+    });
+
+    describe("Merkle claims", function () {
+        it("Should be able to claim rewards with merkle proof", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward1 = ethers.parseEther("1");
+            const reward2 = ethers.parseEther("2");
+            const tree = RewardMerkleTree.fromLedger({
+                [otherAccount.address]: { [token.target as string]: reward1, [nativeAddress]: reward2 },
+                [otherAccount2.address]: { [token.target as string]: reward2 },
+            });
+            await expect(rewardBook.publishMerkleRoot(tree.root))
+            .to.emit(rewardBook, "MerkleRootPublished")
+            .withArgs(owner.address, 1, tree.root);
+
+            const leaf = { token: token.target as string, target: otherAccount.address, totalReward: reward1 };
+            await expect(rewardBook.connect(otherAccount2).claimRewardMerkle(token, otherAccount, reward1, tree.getProof(leaf)))
+            .to.changeTokenBalance(token, otherAccount, reward1);
+
+            const ethLeaf = { token: nativeAddress, target: otherAccount.address, totalReward: reward2 };
+            await expect(rewardBook.connect(otherAccount).claimRewardMerkle(nativeAddress, otherAccount, reward2, tree.getProof(ethLeaf)))
+            .to.changeEtherBalance(otherAccount, reward2);
+
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward1);
+            expect(await rewardBook.rewardsSentEth(otherAccount)).to.equal(reward2);
+        });
+
+        it("Should send only the additional amount in a new epoch", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward1 = ethers.parseEther("1");
+            const reward2 = ethers.parseEther("2");
+            const tree1 = RewardMerkleTree.fromLedger({
+                [otherAccount.address]: { [token.target as string]: reward1 },
+                [otherAccount2.address]: { [token.target as string]: reward1 },
+            });
+            await rewardBook.publishMerkleRoot(tree1.root);
+            const leaf1 = { token: token.target as string, target: otherAccount.address, totalReward: reward1 };
+            await rewardBook.claimRewardMerkle(token, otherAccount, reward1, tree1.getProof(leaf1));
+
+            const tree2 = RewardMerkleTree.fromLedger({
+                [otherAccount.address]: { [token.target as string]: reward2 },
+                [otherAccount2.address]: { [token.target as string]: reward2 },
+            });
+            await rewardBook.publishMerkleRoot(tree2.root);
+            expect(await rewardBook.merkleEpoch()).to.equal(2);
+            expect(await rewardBook.merkleRoots(1)).to.equal(tree1.root);
+
+            const leaf2 = { token: token.target as string, target: otherAccount.address, totalReward: reward2 };
+            await expect(rewardBook.claimRewardMerkle(token, otherAccount, reward2, tree2.getProof(leaf2)))
+            .to.emit(rewardBook, "RewardSentERC20")
+            .withArgs(owner.address, token.target, otherAccount.address, reward2, reward2 - reward1);
+
+            // proofs of the previous epoch are no longer valid
+            const oldLeaf = { token: token.target as string, target: otherAccount2.address, totalReward: reward1 };
+            await expect(rewardBook.claimRewardMerkle(token, otherAccount2, reward1, tree1.getProof(oldLeaf)))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidProof");
+        });
+
+        it("Should not be able to claim rewards with invalid merkle proof", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward1 = ethers.parseEther("1");
+            const reward2 = ethers.parseEther("2");
+            const tree = RewardMerkleTree.fromLedger({
+                [otherAccount.address]: { [token.target as string]: reward1 },
+                [otherAccount2.address]: { [token.target as string]: reward2 },
+            });
+            await rewardBook.publishMerkleRoot(tree.root);
+
+            const leaf = { token: token.target as string, target: otherAccount.address, totalReward: reward1 };
+            await expect(rewardBook.claimRewardMerkle(token, otherAccount, reward2, tree.getProof(leaf)))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidProof");
+        });
+
+        it("Should not be able to claim rewards before any merkle root is published", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.claimRewardMerkle(token, otherAccount, ethers.parseEther("1"), []))
+            .to.be.revertedWithCustomError(rewardBook, "InvalidProof");
+        });
+
+        it("Should not be able to publish merkle root from non-signer", async function () {
+            const { rewardBook, otherAccount } = await loadFixture(deployLockFixture);
+
+            await expect(rewardBook.connect(otherAccount).publishMerkleRoot(ethers.ZeroHash))
+            .to.be.revertedWith(missingRole(otherAccount, SIGNER_ROLE));
+        });
+
+        it("Should build proofs verifiable off-chain", async function () {
+            const [owner, ...accounts] = await ethers.getSigners();
+
+            const ledger = Object.fromEntries(accounts.map((account, i) => [account.address, { [owner.address]: BigInt(i + 1) }]));
+            const tree = RewardMerkleTree.fromLedger(ledger);
+            const proofs = tree.toProofs();
+            for (const leaf of tree.leaves) {
+                expect(RewardMerkleTree.verify(tree.root, leaf, tree.getProof(leaf))).to.be.true;
+                expect(proofs.claims[leaf.target][leaf.token].proof).to.deep.equal(tree.getProof(leaf));
+            }
+        });
+    });
+
+    describe("Client", function () {
+        it("Should send only the outstanding rewards in a ledger", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward1 = ethers.parseEther("1");
+            const reward2 = ethers.parseEther("2");
+            await rewardBook.sendRewardERC20(token, otherAccount2, reward2);
+
+            const client = new RewardBookClient(rewardBook);
+            const ledger = {
+                [otherAccount.address]: { [nativeAddress]: reward1, [token.target as string]: reward2 },
+                [otherAccount2.address]: { [token.target as string]: reward2 },
+            };
+            const report = await client.distribute(ledger);
+
+            expect(report.transactions).to.have.length(2);
+            expect(report.skipped).to.have.length(1);
+            expect(report.skipped[0].target).to.equal(otherAccount2.address);
+            expect(report.sent).to.deep.equal([
+                {
+                    transactionHash: report.transactions[0],
+                    caller: owner.address,
+                    token: nativeAddress,
+                    target: otherAccount.address,
+                    totalReward: reward1,
+                    amountSent: reward1,
+                },
+                {
+                    transactionHash: report.transactions[1],
+                    caller: owner.address,
+                    token: token.target,
+                    target: otherAccount.address,
+                    totalReward: reward2,
+                    amountSent: reward2,
+                },
+            ]);
+            expect(await rewardBook.rewardsSentEth(otherAccount)).to.equal(reward1);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward2);
+        });
+
+        it("Should not send anything if a ledger total is less than already sent", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+
+            const client = new RewardBookClient(rewardBook);
+            const ledger = { [otherAccount.address]: { [token.target as string]: reward - 1n } };
+            await expect(client.distribute(ledger)).to.be.rejectedWith("less than already sent");
+        });
+
+        it("Should report the vested part of the outstanding rewards", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const start = BigInt(await time.latest());
+            await rewardBook.setVestingSchedule(token, start, 0, 1000);
+
+            const reward = ethers.parseEther("1");
+            await time.setNextBlockTimestamp(start + 250n);
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            await time.increaseTo(start + 500n);
+
+            const client = new RewardBookClient(rewardBook);
+            const [delta] = await client.computeDeltas({ [otherAccount.address]: { [token.target as string]: reward } });
+            expect(delta.rewardSent).to.equal(reward / 4n);
+            expect(delta.amount).to.equal(reward * 3n / 4n);
+            expect(delta.claimable).to.equal(reward / 4n);
+        });
+
+        it("Should parse CSV ledgers", async function () {
+            const { token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const ledger = parseLedgerCsv([
+                "recipient,token,totalReward",
+                `${otherAccount.address.toLowerCase()},${token.target},100`,
+                `${otherAccount2.address},${token.target},200`,
+                "",
+            ].join("\n"));
+
+            expect(ledger).to.deep.equal({
+                [otherAccount.address]: { [token.target as string]: 100n },
+                [otherAccount2.address]: { [token.target as string]: 200n },
+            });
+            expect(() => parseLedgerCsv(`${otherAccount.address},${token.target},1\n${otherAccount.address},${token.target},2`))
+            .to.throw("Duplicated ledger entry");
+        });
+    });
+
+    describe("Batch", function () {
+        it("Should reject invalid rows and send the rest of a mixed batch", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward1 = ethers.parseEther("1");
+            const reward2 = ethers.parseEther("2");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward2);
+
+            const sender = new RewardBatchSender(new RewardBookClient(rewardBook), { maxChunkSize: 4 });
+            const report = await sender.send({
+                [otherAccount.address]: {
+                    [token.target as string]: reward1,
+                    [nativeAddress]: reward1,
+                    [otherAccount2.address]: reward1,
+                },
+                [ZeroAddress]: { [nativeAddress]: reward1 },
+                [otherAccount2.address]: { [token.target as string]: reward2, [nativeAddress]: reward2 },
+            });
+
+            expect(report.rejected.map((entry) => entry.reason)).to.have.members([
+                "InvalidTotalReward",
+                "InvalidAddress",
+                "InvalidToken",
+            ]);
+            expect(report.sent).to.have.length(3);
+            expect(await rewardBook.rewardsSentEth(otherAccount)).to.equal(reward1);
+            expect(await rewardBook.rewardsSentEth(otherAccount2)).to.equal(reward2);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward2);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount2)).to.equal(reward2);
+        });
+
+        it("Should split batches exceeding the gas limit", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const sender = new RewardBatchSender(new RewardBookClient(rewardBook), { maxGasPerChunk: 150000n });
+            const report = await sender.send({
+                [otherAccount.address]: { [token.target as string]: reward },
+                [otherAccount2.address]: { [token.target as string]: reward },
+            });
+
+            expect(report.transactions).to.have.length(2);
+            expect(report.sent).to.have.length(2);
+        });
+
+        it("Should resume from the last confirmed chunk", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const ledger = {
+                [otherAccount.address]: { [token.target as string]: reward },
+                [otherAccount2.address]: { [token.target as string]: reward },
+            };
+
+            const checkpointPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "rewardbook-")), "checkpoint.json");
+            const store = new FileCheckpointStore(checkpointPath);
+
+            // crash after the first chunk is confirmed
+            let saves = 0;
+            const crashingStore = {
+                load: () => store.load(),
+                save: async (checkpoint: BatchCheckpoint) => {
+                    await store.save(checkpoint);
+                    if (++saves === 2) throw new Error("crash");
+                },
+            };
+            const client = new RewardBookClient(rewardBook);
+            await expect(new RewardBatchSender(client, { maxChunkSize: 1, store: crashingStore }).send(ledger))
+            .to.be.rejectedWith("crash");
+
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount2)).to.equal(0);
+
+            const report = await new RewardBatchSender(client, { maxChunkSize: 1, store }).send(ledger);
+            expect(report.resumed).to.be.true;
+            expect(report.transactions).to.have.length(1);
+            expect(report.sent[0].target).to.equal(otherAccount2.address);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount2)).to.equal(reward);
+
+            const checkpoint = await store.load();
+            expect(checkpoint!.confirmed).to.equal(2);
+            expect(checkpoint!.transactions).to.have.length(2);
+        });
+
+        it("Should start a new distribution with the checkpoint of a finished one", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            const checkpointPath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "rewardbook-")), "checkpoint.json");
+            const sender = new RewardBatchSender(new RewardBookClient(rewardBook), { store: new FileCheckpointStore(checkpointPath) });
+            await sender.send({ [otherAccount.address]: { [token.target as string]: reward } });
+
+            const report = await sender.send({ [otherAccount.address]: { [token.target as string]: reward * 2n } });
+            expect(report.resumed).to.be.false;
+            expect(report.sent).to.have.length(1);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(reward * 2n);
+        });
+
+        it("Should not plan a distribution that cannot be sent", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const ledger = { [otherAccount.address]: { [token.target as string]: ethers.parseEther("1") } };
+            await expect(new RewardBatchSender(new RewardBookClient(rewardBook.connect(otherAccount2))).send(ledger))
+            .to.be.rejectedWith(`${otherAccount2.address} is missing DISTRIBUTOR_ROLE`);
+
+            await rewardBook.pause();
+            await expect(new RewardBatchSender(new RewardBookClient(rewardBook)).send(ledger))
+            .to.be.rejectedWith("RewardBook is paused");
+        });
+    });
+
+    describe("Safe proposals", function () {
+        async function deploySafeFixture() {
+            const fixture = await deployLockFixture();
+            const safe = ethers.Wallet.createRandom().address;
+            const rewardBook = fixture.rewardBook;
+            await rewardBook.grantRole(await rewardBook.DEFAULT_ADMIN_ROLE(), safe);
+            await rewardBook.grantRole(DISTRIBUTOR_ROLE, safe);
+            await rewardBook.grantRole(TREASURY_ROLE, safe);
+
+            return { ...fixture, safe, builder: new SafeProposalBuilder(new RewardBookClient(rewardBook), safe, { maxRewardsPerCall: 2 }) };
+        }
+
+        it("Should encode send calls decodable with the contract ABI", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2, builder } = await loadFixture(deploySafeFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardERC20(token, owner, reward);
+            const { transactions, skipped } = await builder.sendRewards({
+                [owner.address]: { [token.target as string]: reward * 3n },
+                [otherAccount.address]: { [token.target as string]: reward, [nativeAddress]: reward },
+                [otherAccount2.address]: { [token.target as string]: reward * 2n },
+            });
+
+            expect(skipped).to.be.empty;
+            expect(transactions).to.have.length(3);
+            for (const transaction of transactions) {
+                expect(transaction.to).to.equal(rewardBook.target);
+                expect(transaction.value).to.equal(0);
+                expect(transaction.operation).to.equal(0);
+            }
+
+            const sendEth = rewardBook.interface.parseTransaction(transactions[0])!;
+            expect(sendEth.name).to.equal("sendRewardsEth");
+            expect(sendEth.args.toArray().map((arg: any) => arg.toArray())).to.deep.equal([[otherAccount.address], [reward]]);
+
+            const firstSend = rewardBook.interface.parseTransaction(transactions[1])!;
+            expect(firstSend.name).to.equal("sendRewardsERC20");
+            expect(firstSend.args._targets).to.deep.equal([owner.address, otherAccount.address]);
+            expect(firstSend.args._totalRewards).to.deep.equal([reward * 3n, reward]);
+
+            const secondSend = rewardBook.interface.parseTransaction(transactions[2])!;
+            expect(secondSend.args._tokens).to.deep.equal([token.target]);
+            expect(secondSend.args._targets).to.deep.equal([otherAccount2.address]);
+        });
+
+        it("Should encode collect and admin transfer calls", async function () {
+            const { rewardBook, token, owner, safe, builder } = await loadFixture(deploySafeFixture);
+
+            const amount = ethers.parseEther("1");
+            const collectEth = rewardBook.interface.parseTransaction(await builder.collect(await rewardBook.NATIVE_ADDRESS(), owner.address, amount))!;
+            expect(collectEth.name).to.equal("collectEth");
+            expect(collectEth.args.toArray()).to.deep.equal([owner.address, amount]);
+
+            const collectERC20 = rewardBook.interface.parseTransaction(await builder.collect(token.target as string, owner.address, amount))!;
+            expect(collectERC20.name).to.equal("collectERC20");
+            expect(collectERC20.args.toArray()).to.deep.equal([token.target, owner.address, amount]);
+
+            const adminRole = await rewardBook.DEFAULT_ADMIN_ROLE();
+            const [grant, renounce] = (await builder.transferAdmin(owner.address)).map((transaction) => rewardBook.interface.parseTransaction(transaction)!);
+            expect(grant.name).to.equal("grantRole");
+            expect(grant.args.toArray()).to.deep.equal([adminRole, owner.address]);
+            expect(renounce.name).to.equal("renounceRole");
+            expect(renounce.args.toArray()).to.deep.equal([adminRole, safe]);
+        });
+
+        it("Should round-trip calls through MultiSend encoding", async function () {
+            const { rewardBook, token, owner, otherAccount, builder } = await loadFixture(deploySafeFixture);
+
+            const transactions = [
+                ...(await builder.sendRewards({ [otherAccount.address]: { [token.target as string]: 1n } })).transactions,
+                await builder.collect(token.target as string, owner.address, 2n),
+                { to: otherAccount.address, value: 3n, data: "0x", operation: 0 },
+            ];
+            const multiSend = encodeMultiSend(transactions);
+            expect(multiSend.to).to.equal(MULTI_SEND_CALL_ONLY);
+            expect(multiSend.operation).to.equal(1);
+            expect(decodeMultiSend(multiSend.data)).to.deep.equal(transactions);
+
+            expect(() => encodeMultiSend([multiSend])).to.throw("MultiSendCallOnly does not support delegatecalls");
+            expect(rewardBook.interface.parseTransaction(decodeMultiSend(multiSend.data)[1])!.name).to.equal("collectERC20");
+        });
+
+        it("Should split calls into Transaction Builder batches", async function () {
+            const { rewardBook, token, owner, safe, builder } = await loadFixture(deploySafeFixture);
+
+            const transactions = await Promise.all([1n, 2n, 3n].map((amount) => builder.collect(token.target as string, owner.address, amount)));
+            const batches = toTransactionBuilderBatches(5000n, safe, transactions, "Collect", 2);
+
+            expect(batches).to.have.length(2);
+            expect(batches[0].chainId).to.equal("5000");
+            expect(batches[0].meta.createdFromSafeAddress).to.equal(safe);
+            expect(batches[0].meta.name).to.equal("Collect (1/2)");
+            expect(batches[0].transactions).to.have.length(2);
+            expect(batches[1].transactions).to.deep.equal([{ to: rewardBook.target, value: "0", data: transactions[2].data }]);
+        });
+
+        it("Should simulate calls from the Safe and revert the state", async function () {
+            const { rewardBook, token, owner, otherAccount, safe, builder } = await loadFixture(deploySafeFixture);
+
+            const client = new RewardBookClient(rewardBook);
+            const reward = ethers.parseEther("1");
+            const transactions = [
+                ...(await builder.sendRewards({ [otherAccount.address]: { [token.target as string]: reward } })).transactions,
+                await builder.collect(token.target as string, owner.address, ethers.parseEther("9")),
+                ...await builder.transferAdmin(owner.address),
+            ];
+
+            const results = await simulateSafeTransactions(ethers.provider, client, safe, transactions);
+            expect(results.map((result) => result.success)).to.deep.equal([true, true, true, true]);
+            expect(await rewardBook.rewardsSentERC20(token, otherAccount)).to.equal(0);
+            expect(await rewardBook.hasRole(await rewardBook.DEFAULT_ADMIN_ROLE(), safe)).to.be.true;
+
+            // collecting the whole balance fails after the reward was sent
+            const failing = await simulateSafeTransactions(ethers.provider, client, safe, [
+                transactions[0],
+                await builder.collect(token.target as string, owner.address, ethers.parseEther("10")),
+            ]);
+            expect(failing[0].success).to.be.true;
+            expect(failing[1].success).to.be.false;
+            expect(failing[1].reason).to.equal("AvailableBalanceExceeded");
+        });
+
+        it("Should simulate calls with the balance of the Safe", async function () {
+            const { rewardBook, safe } = await loadFixture(deploySafeFixture);
+
+            const client = new RewardBookClient(rewardBook);
+            const funding = { to: rewardBook.target as string, value: ethers.parseEther("1"), data: "0x", operation: 0 };
+            const [unfunded] = await simulateSafeTransactions(ethers.provider, client, safe, [funding]);
+            expect(unfunded.success).to.be.false;
+
+            // the gas is funded, the value is sent from the balance of the Safe
+            await setBalance(safe, ethers.parseEther("1"));
+            const results = await simulateSafeTransactions(ethers.provider, client, safe, [funding, funding]);
+            expect(results.map((result) => result.success)).to.deep.equal([true, false]);
+            expect(await ethers.provider.getBalance(safe)).to.equal(ethers.parseEther("1"));
+        });
+    });
+
+    describe("Indexer", function () {
+        it("Should rebuild sent totals and flag discrepancies against the ledger", async function () {
+            const { rewardBook, token, owner, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const nativeAddress = await rewardBook.NATIVE_ADDRESS();
+            const reward1 = ethers.parseEther("1");
+            const reward2 = ethers.parseEther("2");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward1);
+            await rewardBook.sendRewardERC20(token, otherAccount, reward2);
+            await rewardBook.sendRewardsEth([otherAccount, otherAccount2], [reward1, reward1]);
+
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount2.address, totalReward: reward2, deadline };
+            const signature = await signClaim(owner, await getClaimDomain(rewardBook), claim);
+            await rewardBook.connect(otherAccount2).claimRewardERC20(token, otherAccount2, reward2, deadline, signature);
+
+            const indexer = new RewardBookIndexer(new RewardBookClient(rewardBook), { fromBlock: 0, pageSize: 2 });
+            const state = await indexer.sync();
+            expect(state.rewards).to.have.length(5);
+            expect(state.lastBlock).to.equal(await ethers.provider.getBlockNumber());
+
+            const report = await indexer.reconcile({
+                [otherAccount.address]: { [token.target as string]: reward1, [nativeAddress]: reward2 },
+                [otherAccount2.address]: { [token.target as string]: reward2 },
+            });
+
+            expect(report.totals).to.have.length(4);
+            expect(report.discrepancies.map(({ kind, token, target }) => ({ kind, token, target }))).to.have.deep.members([
+                { kind: "Overpaid", token: token.target, target: otherAccount.address },
+                { kind: "MissingFromLedger", token: nativeAddress, target: otherAccount2.address },
+            ]);
+            expect(report.outstanding).to.deep.equal({ [nativeAddress]: reward2 - reward1, [token.target as string]: 0n });
+        });
+
+        it("Should flag totals not matching indexed events", async function () {
+            const { rewardBook, token, otherAccount } = await loadFixture(deployLockFixture);
+
+            const reward1 = ethers.parseEther("1");
+            const reward2 = ethers.parseEther("2");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward1);
+            const fromBlock = await ethers.provider.getBlockNumber() + 1;
+            await rewardBook.sendRewardERC20(token, otherAccount, reward2);
+
+            const indexer = new RewardBookIndexer(new RewardBookClient(rewardBook), { fromBlock });
+            await indexer.sync();
+            const report = await indexer.reconcile();
+
+            expect(report.discrepancies).to.have.length(1);
+            expect(report.discrepancies[0]).to.deep.include({
+                kind: "EventsMismatch",
+                indexedSent: reward2 - reward1,
+                onChainSent: reward2,
+            });
+        });
+
+        it("Should continue indexing from the store", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            const middleBlock = await ethers.provider.getBlockNumber();
+            await rewardBook.sendRewardERC20(token, otherAccount2, reward);
+
+            const storePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "rewardbook-")), "index.json");
+            const client = new RewardBookClient(rewardBook);
+            await new RewardBookIndexer(client, { fromBlock: 0, store: new JsonIndexStore(storePath) }).sync(middleBlock);
+
+            const indexer = new RewardBookIndexer(client, { fromBlock: 0, store: new JsonIndexStore(storePath) });
+            const state = await indexer.sync();
+            expect(state.rewards.map((reward) => reward.target)).to.deep.equal([otherAccount.address, otherAccount2.address]);
+            expect((await indexer.reconcile()).discrepancies).to.be.empty;
+        });
+
+        it("Should only store confirmed blocks", async function () {
+            const { rewardBook, token, otherAccount, otherAccount2 } = await loadFixture(deployLockFixture);
+
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            const confirmedBlock = await ethers.provider.getBlockNumber();
+            await rewardBook.sendRewardERC20(token, otherAccount2, reward);
+            await mine(1);
+
+            const storePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), "rewardbook-")), "index.json");
+            const client = new RewardBookClient(rewardBook);
+            const indexer = new RewardBookIndexer(client, { fromBlock: 0, confirmations: 2, store: new JsonIndexStore(storePath) });
+            const state = await indexer.sync(confirmedBlock + 1);
+            expect(state.lastBlock).to.equal(confirmedBlock);
+            expect(state.rewards.map((reward) => reward.target)).to.deep.equal([otherAccount.address]);
+            expect((await new JsonIndexStore(storePath).load())!.lastBlock).to.equal(confirmedBlock);
+            // the unconfirmed reward is not flagged as missing from the events
+            expect((await indexer.reconcile()).discrepancies).to.be.empty;
+
+            await mine(1);
+            const later = await new RewardBookIndexer(client, { fromBlock: 0, confirmations: 2, store: new JsonIndexStore(storePath) }).sync();
+            expect(later.rewards.map((reward) => reward.target)).to.deep.equal([otherAccount.address, otherAccount2.address]);
+        });
+    });
+
+    describe("Upgrades", function () {
+        async function deployUpgradeableFixture() {
+            const fixture = await deployLockFixture();
+            const { owner, token } = fixture;
+
+            const Implementation = await ethers.getContractFactory("RewardBookUpgradeable");
+            const implementation = await Implementation.deploy(ZeroAddress);
+            const Proxy = await ethers.getContractFactory("ERC1967Proxy");
+            const proxy = await Proxy.deploy(implementation, Implementation.interface.encodeFunctionData("initialize", [owner.address, true]));
+            const upgradeable = await ethers.getContractAt("RewardBookUpgradeable", proxy);
+            await upgradeable.grantRole(SIGNER_ROLE, owner);
+            await upgradeable.grantRole(DISTRIBUTOR_ROLE, owner);
+
+            const amount = ethers.parseEther("10");
+            await owner.sendTransaction({ to: upgradeable, value: amount });
+            await token.transfer(upgradeable, amount);
+
+            return { ...fixture, implementation, upgradeable };
+        }
+
+        it("Should initialize the proxy only once", async function () {
+            const { implementation, upgradeable, owner, otherAccount } = await loadFixture(deployUpgradeableFixture);
+
+            expect(await upgradeable.hasRole(await upgradeable.DEFAULT_ADMIN_ROLE(), owner)).to.be.true;
+            expect(await upgradeable.migrating()).to.be.true;
+            await expect(upgradeable.initialize(otherAccount, false))
+            .to.be.revertedWith("Initializable: contract is already initialized");
+            await expect(implementation.initialize(otherAccount, false))
+            .to.be.revertedWith("Initializable: contract is already initialized");
+        });
+
+        it("Should carry over rewards sent by the old instance", async function () {
+            const { rewardBook, upgradeable, owner, token, otherAccount, otherAccount2 } = await loadFixture(deployUpgradeableFixture);
+
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardEth(otherAccount, reward);
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            await rewardBook.sendRewardERC20(token, otherAccount2, reward);
+            await rewardBook.sendRewardERC20(token, otherAccount2, reward * 2n);
+
+            const migrator = new RewardBookMigrator(new RewardBookClient(rewardBook), upgradeable, { fromBlock: 0, batchSize: 2 });
+            const report = await migrator.migrate();
+            expect(report.entries).to.have.length(3);
+            expect(report.transactions).to.have.length(2);
+            expect(await upgradeable.rewardsSentEth(otherAccount)).to.equal(reward);
+            expect(await upgradeable.rewardsSentERC20(token, otherAccount)).to.equal(reward);
+            expect(await upgradeable.rewardsSentERC20(token, otherAccount2)).to.equal(reward * 2n);
+            expect(await upgradeable.totalRewardsSent(token)).to.equal(reward * 3n);
+
+            // running the migration again seeds nothing
+            const rerun = await migrator.migrate();
+            expect(rerun.entries).to.be.empty;
+            expect(rerun.seeded).to.have.length(3);
+            expect(rerun.transactions).to.be.empty;
+
+            await expect(upgradeable.finishMigration())
+            .to.emit(upgradeable, "MigrationCompleted")
+            .withArgs(owner.address);
+
+            await expect(upgradeable.sendRewardEth(otherAccount, reward))
+            .to.changeEtherBalance(otherAccount, 0);
+            await expect(upgradeable.sendRewardERC20(token, otherAccount2, reward * 3n))
+            .to.changeTokenBalance(token, otherAccount2, reward);
+
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const claimable = await ethers.getContractAt("RewardBook", upgradeable);
+            const signature = await signClaim(owner, await getClaimDomain(claimable), claim);
+            await expect(claimable.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.changeTokenBalance(token, otherAccount, 0);
+        });
+
+        it("Should drain the old instance and finish only without rewards sent after seeding", async function () {
+            const { rewardBook, upgradeable, token, otherAccount, otherAccount2 } = await loadFixture(deployUpgradeableFixture);
+
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardERC20(token, otherAccount, reward);
+            const snapshot = await ethers.provider.getBlockNumber();
+            const client = new RewardBookClient(rewardBook);
+            const migrator = new RewardBookMigrator(client, upgradeable, { fromBlock: 0, toBlock: snapshot });
+            await migrator.migrate();
+
+            // a reward sent after the snapshot would be paid again by the new instance
+            await rewardBook.sendRewardERC20(token, otherAccount2, reward);
+            await expect(migrator.finish()).to.be.rejectedWith(`Old instance sent 1 rewards after block ${snapshot}`);
+            expect(await upgradeable.migrating()).to.be.true;
+
+            const balance = await token.balanceOf(upgradeable);
+            const drained = await client.getBalance(token.target as string);
+            expect(await migrator.drain([token.target as string])).to.have.length(2);
+            expect(await token.balanceOf(upgradeable)).to.equal(balance + drained);
+            expect(await client.getBalance(token.target as string)).to.equal(0);
+            expect(await client.getBalance(await rewardBook.NATIVE_ADDRESS())).to.equal(0);
+            await expect(rewardBook.sendRewardERC20(token, otherAccount2, reward * 2n)).to.be.reverted;
+
+            const rerun = new RewardBookMigrator(client, upgradeable, { fromBlock: 0 });
+            await rerun.migrate();
+            await rerun.finish();
+            expect(await upgradeable.migrating()).to.be.false;
+            expect(await upgradeable.rewardsSentERC20(token, otherAccount2)).to.equal(reward);
+        });
+
+        it("Should reconcile a migrated proxy with its seeded totals", async function () {
+            const { rewardBook, upgradeable, owner, token, otherAccount, otherAccount2 } = await loadFixture(deployUpgradeableFixture);
+
+            const reward = ethers.parseEther("1");
+            await rewardBook.sendRewardEth(otherAccount, reward);
+            await rewardBook.sendRewardERC20(token, otherAccount2, reward);
+            await new RewardBookMigrator(new RewardBookClient(rewardBook), upgradeable, { fromBlock: 0 }).migrate();
+            await upgradeable.finishMigration();
+            await upgradeable.sendRewardERC20(token, otherAccount2, reward * 3n);
+
+            const indexer = new RewardBookIndexer(RewardBookClient.connect(upgradeable.target as string, owner), { fromBlock: 0 });
+            await indexer.sync();
+            const report = await indexer.reconcile({
+                [otherAccount.address]: { [await rewardBook.NATIVE_ADDRESS()]: reward },
+                [otherAccount2.address]: { [token.target as string]: reward * 3n },
+            });
+            expect(report.discrepancies).to.be.empty;
+            expect(report.totals.map((total) => total.indexedSent)).to.deep.equal([reward, reward * 3n]);
+        });
+
+        it("Should not send or claim rewards during migration", async function () {
+            const { upgradeable, owner, token, otherAccount } = await loadFixture(deployUpgradeableFixture);
+
+            const reward = ethers.parseEther("1");
+            await expect(upgradeable.sendRewardEth(otherAccount, reward))
+            .to.be.revertedWithCustomError(upgradeable, "MigrationInProgress");
+            await expect(upgradeable.sendRewardERC20(token, otherAccount, reward))
+            .to.be.revertedWithCustomError(upgradeable, "MigrationInProgress");
+
+            const deadline = BigInt(await time.latest()) + 3600n;
+            const claim = { token: token.target as string, target: otherAccount.address, totalReward: reward, deadline };
+            const claimable = await ethers.getContractAt("RewardBook", upgradeable);
+            const signature = await signClaim(owner, await getClaimDomain(claimable), claim);
+            await expect(claimable.connect(otherAccount).claimRewardERC20(token, otherAccount, reward, deadline, signature))
+            .to.be.revertedWithCustomError(upgradeable, "MigrationInProgress");
+        });
+
+        it("Should only seed rewards by the admin during migration", async function () {
+            const { upgradeable, owner, token, otherAccount } = await loadFixture(deployUpgradeableFixture);
+
+            const reward = ethers.parseEther("1");
+            await expect(upgradeable.connect(otherAccount).seedRewardsSent([token], [otherAccount], [reward]))
+            .to.be.revertedWith(missingRole(otherAccount, await upgradeable.DEFAULT_ADMIN_ROLE()));
+            await expect(upgradeable.seedRewardsSent([token], [otherAccount], []))
+            .to.be.revertedWithCustomError(upgradeable, "InvalidArrayLengths");
+
+            await expect(upgradeable.seedRewardsSent([token], [otherAccount], [reward]))
+            .to.emit(upgradeable, "RewardSentSeeded")
+            .withArgs(owner.address, token.target, otherAccount.address, reward);
+            await expect(upgradeable.seedRewardsSent([token], [otherAccount], [reward - 1n]))
+            .to.be.revertedWithCustomError(upgradeable, "InvalidTotalReward");
+
+            await upgradeable.finishMigration();
+            await expect(upgradeable.seedRewardsSent([token], [otherAccount], [reward * 2n]))
+            .to.be.revertedWithCustomError(upgradeable, "MigrationFinished");
+            await expect(upgradeable.finishMigration())
+            .to.be.revertedWithCustomError(upgradeable, "MigrationFinished");
+        });
+
+        it("Should only be upgraded by the admin keeping the state", async function () {
+            const { upgradeable, token, otherAccount } = await loadFixture(deployUpgradeableFixture);
+
+            const reward = ethers.parseEther("1");
+            await upgradeable.seedRewardsSent([token], [otherAccount], [reward]);
+            await upgradeable.finishMigration();
+
+            const Implementation = await ethers.getContractFactory("RewardBookUpgradeable");
+            const implementation = await Implementation.deploy(otherAccount);
+            await expect(upgradeable.connect(otherAccount).upgradeTo(implementation))
+            .to.be.revertedWith(missingRole(otherAccount, await upgradeable.DEFAULT_ADMIN_ROLE()));
+
+            await expect(upgradeable.upgradeTo(implementation))
+            .to.emit(upgradeable, "Upgraded")
+            .withArgs(implementation.target);
+            expect(await upgradeable.isTrustedForwarder(otherAccount)).to.be.true;
+            expect(await upgradeable.rewardsSentERC20(token, otherAccount)).to.equal(reward);
+            expect(await upgradeable.migrating()).to.be.false;
+            await expect(upgradeable.sendRewardERC20(token, otherAccount, reward * 2n))
+            .to.changeTokenBalance(token, otherAccount, reward);
         });
     });
 });